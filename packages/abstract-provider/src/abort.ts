@@ -0,0 +1,53 @@
+import { RequestAbortedError } from './errors'
+
+/**
+ * Throws if the caller gave up on the request the signal belongs to.
+ * @param {AbortSignal} signal - The signal of the caller, if any.
+ * @throws {RequestAbortedError}
+ * */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new RequestAbortedError()
+  }
+}
+
+/**
+ * Waits on a promise, or rejects as soon as the caller aborts. The promise
+ * itself keeps running, so this suits work that is shared with other callers.
+ * @param {Promise} promise - The promise to wait on.
+ * @param {AbortSignal} signal - The signal of the caller, if any.
+ * @returns {Promise} - The promise, rejected with a RequestAbortedError on abort.
+ * */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return promise
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError())
+    if (signal.aborted) {
+      return onAbort()
+    }
+
+    signal.addEventListener('abort', onAbort)
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Waits for a delay, e.g before retrying, unless the caller aborts first.
+ * @param {number} delay - How long to wait. In milliseconds.
+ * @param {AbortSignal} signal - The signal of the caller, if any.
+ * */
+export function waitFor(delay: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  return abortable(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, delay)
+    }),
+    signal
+  ).finally(() => clearTimeout(timer))
+}
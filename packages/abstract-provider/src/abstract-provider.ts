@@ -3,14 +3,24 @@ import {
   AccountWithTransactions,
   App,
   Block,
+  ChallengeRequest,
+  ChallengeResponse,
   GetAccountWithTransactionsOptions,
   GetAppsOptions,
+  GetNodeClaimOptions,
+  GetNodeReceiptOptions,
+  GetNodeReceiptsOptions,
   GetNodesOptions,
   Node,
+  NodeClaim,
+  NodeParams,
+  NodeReceipt,
   Paginable,
   RawTxRequest,
+  Timeoutable,
   Transaction,
   TransactionResponse,
+  Upgrade,
 } from '@pokt-foundation/pocketjs-types'
 
 export abstract class AbstractProvider {
@@ -51,6 +61,23 @@ export abstract class AbstractProvider {
     address: string | Promise<string>,
     options: GetAccountWithTransactionsOptions
   ): Promise<AccountWithTransactions>
-
-  // TODO: Add methods for params/requestChallenge
+  // Params
+  abstract getNodeParams(
+    height?: number,
+    options?: Timeoutable
+  ): Promise<NodeParams>
+  abstract getAllParams(height: number, options: Timeoutable): Promise<any>
+  abstract getUpgrade(height?: number, options?: Timeoutable): Promise<Upgrade>
+  // Claims & receipts
+  abstract getNodeClaim(options: GetNodeClaimOptions): Promise<NodeClaim>
+  abstract getNodeReceipt(options: GetNodeReceiptOptions): Promise<NodeReceipt>
+  abstract getNodeReceipts(
+    address: string,
+    options?: GetNodeReceiptsOptions
+  ): Promise<Paginable<NodeReceipt>>
+  // Challenges
+  abstract challenge(
+    request: ChallengeRequest,
+    options?: Timeoutable
+  ): Promise<ChallengeResponse>
 }
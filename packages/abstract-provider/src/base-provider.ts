@@ -0,0 +1,1439 @@
+import AbortController from 'abort-controller'
+import debug from 'debug'
+import { Buffer } from 'buffer'
+import {
+  Account,
+  AccountWithTransactions,
+  App,
+  Block,
+  ChallengeRelayResponse,
+  ChallengeRequest,
+  ChallengeResponse,
+  DispatchRequest,
+  DispatchResponse,
+  EvidenceType,
+  GetAccountWithTransactionsOptions,
+  GetAppsOptions,
+  GetBlockTransactionsOptions,
+  GetNodeClaimOptions,
+  GetNodeClaimsOptions,
+  GetNodeReceiptOptions,
+  GetNodeReceiptsOptions,
+  GetNodesOptions,
+  Node,
+  NodeClaim,
+  NodeParams,
+  NodeReceipt,
+  Paginable,
+  PaginableBlockTransactions,
+  ProviderHooks,
+  RawTransactionResponse,
+  RawTxRequest,
+  ResponseEvent,
+  RetryPolicy,
+  SessionHeader,
+  Transaction,
+  TransactionResponse,
+  Upgrade,
+} from '@pokt-foundation/pocketjs-types'
+import { throwIfAborted, waitFor } from './abort'
+import { AbstractProvider } from './abstract-provider'
+import {
+  EndpointHealth,
+  EndpointHealthOptions,
+  EndpointPool,
+} from './endpoint-pool'
+import {
+  DispatchersFailureError,
+  InvalidArgumentError,
+  InvalidRpcResponseError,
+  isNotFoundError,
+  NetworkError,
+  NoEndpointAvailableError,
+  RelayFailureError,
+  RequestAbortedError,
+  RpcResponseError,
+  TimeoutError,
+  validateTransactionResponse,
+} from './errors'
+import { callHook } from './hooks'
+import {
+  getRetryDelay,
+  isRetryableError,
+  isRetryableStatus,
+  resolveRetryPolicy,
+  RetryAttempt,
+  withAttempts,
+} from './retry-policy'
+import { V1RpcRoutes } from './routes'
+import { Transport, TransportResponse } from './transport'
+
+const DEFAULT_TIMEOUT = 10000
+
+interface PerformOptions {
+  route: V1RpcRoutes
+  body: any
+  rpcUrl?: string
+  timeout?: number
+  retryAttempts?: number
+  retryPolicy?: Partial<RetryPolicy>
+  // Lets the caller give up on the request, retries included.
+  signal?: AbortSignal
+  // Collects every attempt made, for the caller to report.
+  attempts?: RetryAttempt[]
+}
+
+// Transports fail the way fetch does: timeouts abort the request, and network
+// failures reject with a TypeError or FetchError.
+function toProviderError(error: any): Error {
+  if (error?.name === 'AbortError') {
+    return new TimeoutError()
+  }
+  if (error?.name === 'TypeError' || error?.name === 'FetchError') {
+    return new NetworkError()
+  }
+  return error
+}
+
+/**
+ * extractBasicAuth extracts basic authentication credentials from the given
+ * url into a separate base64-encoded string so that we can pass it to Fetch API.
+ **/
+export function extractBasicAuth(urlStr: string) {
+  const url = new URL(urlStr)
+  if (!url.username && !url.password) {
+    return {
+      urlStr,
+    }
+  }
+
+  const credential = Buffer.from(`${url.username}:${url.password}`).toString(
+    'base64'
+  )
+  url.username = ''
+  url.password = ''
+  // URL appends a trailing slash to bare hosts, which would end up doubled
+  // once the route is appended.
+  const strippedUrlStr = urlStr.endsWith('/')
+    ? url.toString()
+    : url.toString().replace(/\/$/, '')
+  return {
+    urlStr: strippedUrlStr,
+    basicAuth: `Basic ${credential}`,
+  }
+}
+
+/**
+ * The BaseProvider holds the implementation of every query, dispatch and relay call,
+ * leaving the HTTP layer to the Transport it is built with.
+ * Extend it and provide a Transport to support a new runtime.
+ *  **/
+export class BaseProvider implements AbstractProvider {
+  private rpcPool: EndpointPool
+  private dispatcherPool: EndpointPool
+  private transport: Transport
+  private retryPolicy: Partial<RetryPolicy>
+  private hooks: ProviderHooks
+  protected logger
+
+  constructor({
+    rpcUrl = '',
+    rpcUrls = [],
+    dispatchers = [],
+    transport,
+    name = 'BaseProvider',
+    retryPolicy = {},
+    endpointHealth = {},
+    hooks = {},
+  }: {
+    rpcUrl?: string
+    rpcUrls?: string[]
+    dispatchers?: string[]
+    transport: Transport
+    name?: string
+    retryPolicy?: Partial<RetryPolicy>
+    endpointHealth?: Partial<EndpointHealthOptions>
+    hooks?: ProviderHooks
+  }) {
+    this.rpcPool = new EndpointPool(
+      [rpcUrl].concat(rpcUrls ?? []),
+      endpointHealth
+    )
+    this.dispatcherPool = new EndpointPool(dispatchers ?? [], endpointHealth)
+    this.transport = transport
+    this.retryPolicy = retryPolicy
+    this.hooks = hooks
+    this.logger = debug(name)
+  }
+
+  private async perform({
+    route,
+    body,
+    rpcUrl,
+    timeout = DEFAULT_TIMEOUT,
+    retryAttempts,
+    retryPolicy,
+    signal,
+    attempts = [],
+  }: PerformOptions): Promise<TransportResponse> {
+    const policy = resolveRetryPolicy({
+      route,
+      providerPolicy: this.retryPolicy,
+      callPolicy: retryPolicy,
+      retryAttempts,
+    })
+    // Calls to a given url, such as relays to a servicer, bypass the pools.
+    const pool = rpcUrl
+      ? undefined
+      : route === V1RpcRoutes.ClientDispatch
+      ? this.dispatcherPool
+      : this.rpcPool
+
+    if (pool && !pool.size()) {
+      throw new NoEndpointAvailableError(
+        `No endpoint available to perform ${route}`
+      )
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      // Every endpoint in the pool gets its chance before backing off.
+      const tried: string[] = []
+      let endpoint = rpcUrl ? rpcUrl : pool?.select(tried)
+      let failure: { response?: TransportResponse; error?: any } = {}
+      let lastResponse: ResponseEvent | undefined
+
+      while (endpoint) {
+        throwIfAborted(signal)
+        tried.push(endpoint)
+        const startTime = Date.now()
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), timeout)
+        const abort = () => controller.abort()
+        signal?.addEventListener('abort', abort)
+
+        const headers = {
+          'Content-Type': 'application/json',
+        }
+
+        const { urlStr, basicAuth } = extractBasicAuth(endpoint)
+        if (basicAuth) {
+          headers['Authorization'] = basicAuth
+        }
+
+        const routedRpcUrl = urlStr + route
+        const event = { route: `${route}`, url: routedRpcUrl, attempt }
+        callHook(this.hooks, 'onRequest', event, this.logger)
+
+        // Fetch can fail by either throwing due to a network error or responding with
+        // ok === false on 40x/50x so both situations be explicitly handled separately.
+        try {
+          const rpcResponse = await this.transport.send(routedRpcUrl, {
+            method: 'POST',
+            signal: controller.signal as AbortSignal,
+            headers: headers,
+            body: JSON.stringify(body),
+          })
+
+          const totalTime = Date.now() - startTime
+          this.logger(
+            `${routedRpcUrl} (attempt ${attempt}) CALL DURATION: ${totalTime}ms`
+          )
+          attempts.push({
+            attempt,
+            url: routedRpcUrl,
+            duration: totalTime,
+            status: rpcResponse.status,
+          })
+          lastResponse = {
+            ...event,
+            latency: totalTime,
+            status: rpcResponse.status,
+          }
+          callHook(this.hooks, 'onResponse', lastResponse, this.logger)
+
+          if (
+            rpcResponse.ok ||
+            !isRetryableStatus(policy, rpcResponse.status)
+          ) {
+            pool?.reportSuccess(endpoint, totalTime)
+            return rpcResponse
+          }
+          pool?.reportFailure(endpoint, totalTime)
+          failure = { response: rpcResponse }
+        } catch (err: any) {
+          // An abort of the caller's own is not down to the endpoint.
+          const error = signal?.aborted ? new RequestAbortedError() : err
+          const totalTime = Date.now() - startTime
+          this.logger(`${routedRpcUrl} attempt ${attempt} failure`)
+          attempts.push({
+            attempt,
+            url: routedRpcUrl,
+            duration: totalTime,
+            error: error?.name,
+          })
+          lastResponse = { ...event, latency: totalTime, error: error?.name }
+          callHook(this.hooks, 'onResponse', lastResponse, this.logger)
+
+          if (signal?.aborted) {
+            throw Object.assign(error, { attempts })
+          }
+          pool?.reportFailure(endpoint, totalTime)
+
+          if (!isRetryableError(policy, error)) {
+            throw Object.assign(toProviderError(error), { attempts })
+          }
+          failure = { error }
+        } finally {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', abort)
+        }
+
+        endpoint = pool?.select(tried)
+        if (endpoint) {
+          this.logger(`failing over to ${endpoint}`)
+          this.emitRetry(lastResponse, 0)
+        }
+      }
+
+      if (attempt >= policy.maxAttempts) {
+        this.logger(`${route} total failure`)
+        if (failure.error) {
+          throw Object.assign(toProviderError(failure.error), { attempts })
+        }
+        return failure.response as TransportResponse
+      }
+
+      const delay = getRetryDelay(policy, attempt)
+      this.logger(`${route} retrying in ${delay}ms`)
+      this.emitRetry(lastResponse, delay)
+      try {
+        await waitFor(delay, signal)
+      } catch (error: any) {
+        throw Object.assign(error, { attempts })
+      }
+    }
+  }
+
+  private emitRetry(lastResponse: ResponseEvent | undefined, delay: number) {
+    if (lastResponse) {
+      callHook(this.hooks, 'onRetry', { ...lastResponse, delay }, this.logger)
+    }
+  }
+
+  /**
+   * Performs a request and parses the JSON the node answered with.
+   * @param {string} expect - A key the answer must hold for the request to be considered successful.
+   * @returns {any} - The parsed answer.
+   * */
+  private async request({
+    expect,
+    ...options
+  }: PerformOptions & { expect?: string }): Promise<any> {
+    const attempts: RetryAttempt[] = []
+    const res = await this.perform({ ...options, attempts })
+    const body = await res.text()
+    const errorDetails = {
+      route: options.route,
+      status: res.status,
+      body,
+      attempts,
+    }
+
+    if (!res.ok) {
+      throw new RpcResponseError(errorDetails)
+    }
+
+    let parsed: any
+    try {
+      parsed = JSON.parse(body)
+    } catch (err: any) {
+      throw new InvalidRpcResponseError(errorDetails)
+    }
+
+    if (
+      expect &&
+      (typeof parsed !== 'object' || parsed === null || !(expect in parsed))
+    ) {
+      throw new InvalidRpcResponseError(errorDetails)
+    }
+
+    return parsed
+  }
+
+  /**
+   * Returns the health of every RPC and dispatcher endpoint the provider was configured with.
+   * @returns {object} - The health of the RPC endpoints and of the dispatchers.
+   * */
+  getEndpointHealth(): {
+    rpcUrls: EndpointHealth[]
+    dispatchers: EndpointHealth[]
+  } {
+    return {
+      rpcUrls: this.rpcPool.getHealth(),
+      dispatchers: this.dispatcherPool.getHealth(),
+    }
+  }
+
+  /**
+   * Fetches the provided address's balance.
+   * @param {string} address - The address to query.
+   * @returns {bigint} - The address's balance.
+   * */
+  async getBalance(address: string | Promise<string>): Promise<bigint> {
+    const { balance } = (await this.request({
+      route: V1RpcRoutes.QueryBalance,
+      body: { address: await address },
+      expect: 'balance',
+    })) as { balance: number }
+    return BigInt(balance.toString())
+  }
+
+  /**
+   * Fetches the provided address's transaction count.
+   * @param {string} address - The address to query.
+   * @returns {number} - The address's transaction count.
+   * */
+  async getTransactionCount(
+    address: string | Promise<string>
+  ): Promise<number> {
+    const txs = (await this.request({
+      route: V1RpcRoutes.QueryAccountTxs,
+      body: { address: await address },
+      expect: 'total_txs',
+    })) as any
+
+    const { total_txs } = txs
+
+    return total_txs
+  }
+
+  /**
+   * Gets the address's acount type (node, app, or account).
+   * @param {string} address - The address to query.
+   * @returns {'node' | 'app' | 'account'} - The address's account type.
+   * @throws {RpcResponseError} - If the node fails to answer whether the address is staked.
+   * */
+  async getType(
+    address: string | Promise<string>
+  ): Promise<'node' | 'app' | 'account'> {
+    const body = { address: await address }
+    // Addresses that aren't staked as an app or node aren't found by the network.
+    const isStaked = async (route: V1RpcRoutes, expect: string) => {
+      try {
+        await this.request({ route, body, expect })
+        return true
+      } catch (err: any) {
+        if (isNotFoundError(err)) {
+          return false
+        }
+        throw err
+      }
+    }
+    const isApp = await isStaked(V1RpcRoutes.QueryApp, 'max_relays')
+    const isNode = await isStaked(V1RpcRoutes.QueryNode, 'service_url')
+
+    if (isApp && !isNode) {
+      return 'app'
+    }
+
+    if (isNode && !isApp) {
+      return 'node'
+    }
+
+    return 'account'
+  }
+
+  /**
+   * Sends a signed transaction from this provider.
+   * @param {TransactionRequest} transaction - The transaction to send, formatted as a `TransactionRequest`.
+   * @returns {TransactionResponse} - The network's response to the transaction.
+   * */
+  async sendTransaction(
+    transaction: RawTxRequest
+  ): Promise<TransactionResponse> {
+    const transactionResponse = (await this.request({
+      route: V1RpcRoutes.ClientRawTx,
+      body: { ...transaction.toJSON() },
+    })) as RawTransactionResponse
+
+    return validateTransactionResponse(transactionResponse)
+  }
+
+  /**
+   * Gets an specific block by its block number.
+   * @param {number} blockNumber - the number (height) of the block to query.
+   * @returns {Block} - The block requested.
+   * */
+  async getBlock(blockNumber: number): Promise<Block> {
+    const block = (await this.request({
+      route: V1RpcRoutes.QueryBlock,
+      body: { height: blockNumber },
+      expect: 'block',
+    })) as Block
+
+    return block
+  }
+
+  /**
+   * Gets an specific transaction specified by its hash.
+   * @param {string} transactionHash - the hash of the transaction to get.
+   * @returns {TransactionResponse} - The transaction requested.
+   * */
+  async getTransaction(transactionHash: string): Promise<Transaction> {
+    const tx = (await this.request({
+      route: V1RpcRoutes.QueryTX,
+      body: { hash: transactionHash },
+      expect: 'hash',
+    })) as Transaction
+
+    return tx
+  }
+
+  /**
+   * Fetches the latest block number.
+   * @returns {number} - The latest height as observed by the node the Provider is connected to.
+   * */
+  async getBlockNumber(): Promise<number> {
+    const { height } = (await this.request({
+      route: V1RpcRoutes.QueryHeight,
+      body: {},
+      expect: 'height',
+    })) as { height: number }
+
+    return height
+  }
+
+  /**
+   * Fetches the requested block's transactions.
+   * @param {GetBlockTransactionsOptions} GetBlockTransactionsOptions - The options to pass in to the query.
+   * @ returns {PaginableBlockTransactions} - The block's transactions.
+   * */
+  async getBlockTransactions(
+    GetBlockTransactionsOptions: GetBlockTransactionsOptions = {
+      blockHeight: 0,
+      page: 1,
+      perPage: 100,
+      includeProofs: false,
+    }
+  ): Promise<PaginableBlockTransactions> {
+    const {
+      blockHeight: height,
+      includeProofs,
+      page,
+      perPage,
+      timeout,
+      retryPolicy,
+    } = GetBlockTransactionsOptions
+    const blockTxs = (await this.request({
+      route: V1RpcRoutes.QueryBlockTxs,
+      body: {
+        height,
+        prove: includeProofs,
+        page,
+        perPage,
+      },
+      timeout,
+      retryPolicy,
+      expect: 'txs',
+    })) as any
+
+    return {
+      pageCount: blockTxs.page_count,
+      totalTxs: blockTxs.total_txs,
+      txs: blockTxs.txs,
+    } as PaginableBlockTransactions
+  }
+
+  /**
+   * Converts an object to Node
+   * @param {any} maybeNode - a Node object returned from API
+   * @returns {Node} - Node converted from maybeNode
+   * */
+  static asNode(maybeNode: any): Node {
+    const {
+      address,
+      chains,
+      jailed,
+      output_address,
+      public_key,
+      reward_delegators,
+      service_url,
+      status,
+      tokens,
+      unstaking_time,
+    } = maybeNode
+    return {
+      address,
+      chains,
+      jailed,
+      outputAddress: output_address,
+      publicKey: public_key,
+      rewardDelegators: reward_delegators,
+      serviceUrl: service_url,
+      status,
+      stakedTokens: tokens.toString(),
+      unstakingTime: unstaking_time,
+    } as Node
+  }
+
+  /**
+   * Converts an object to NodeReceipt
+   * @param {any} maybeReceipt - a Receipt object returned from API
+   * @returns {NodeReceipt} - NodeReceipt converted from maybeReceipt
+   * */
+  static asNodeReceipt(maybeReceipt: any): NodeReceipt {
+    const { address, evidence_type, header, relays } = maybeReceipt
+    return {
+      header: {
+        applicationPubKey: header.app_public_key,
+        chain: header.chain,
+        sessionBlockHeight: Number(header.session_height),
+      },
+      servicerAddress: address,
+      totalRelays: Number(relays),
+      evidenceType: evidence_type,
+    }
+  }
+
+  /**
+   * Converts an EvidenceType to the receipt type expected by the RPC
+   * @param {EvidenceType} evidenceType - the evidence type to convert
+   * @returns {string} - 'relay' or 'challenge'
+   * */
+  static asReceiptType(
+    evidenceType: EvidenceType = EvidenceType.RelayEvidence
+  ): string {
+    return evidenceType === EvidenceType.ChallengeEvidence
+      ? 'challenge'
+      : 'relay'
+  }
+
+  /**
+   * Fetches nodes active from the network with the options provided.
+   * @param {GetNodesOptions} getNodesOptions - the options to pass in to the query.
+   * @returns {Node[]} - An array with the nodes requested and their information.
+   * */
+  async getNodes(
+    GetNodesOptions: GetNodesOptions = {
+      blockHeight: 0,
+      page: 1,
+      perPage: 100,
+    }
+  ): Promise<Paginable<Node>> {
+    const { blockHeight: height } = GetNodesOptions
+
+    const parsedRes = (await this.request({
+      route: V1RpcRoutes.QueryNodes,
+      body: {
+        height,
+        opts: {
+          page: GetNodesOptions.page ?? 1,
+          per_page: GetNodesOptions.perPage ?? 100,
+          ...(GetNodesOptions?.blockchain
+            ? { blockchain: GetNodesOptions.blockchain }
+            : {}),
+          ...(GetNodesOptions?.stakingStatus
+            ? { staking_status: GetNodesOptions.stakingStatus }
+            : {}),
+          ...(GetNodesOptions?.jailedStatus
+            ? { jailed_status: GetNodesOptions.jailedStatus }
+            : {}),
+        },
+      },
+      ...(GetNodesOptions?.timeout ? { timeout: GetNodesOptions.timeout } : {}),
+      retryPolicy: GetNodesOptions?.retryPolicy,
+      expect: 'result',
+    })) as any
+
+    const nodes = parsedRes.result.map(BaseProvider.asNode)
+    return {
+      data: nodes,
+      page: GetNodesOptions.page,
+      perPage: GetNodesOptions.perPage,
+      totalPages: parsedRes.total_pages,
+    } as Paginable<Node>
+  }
+
+  /**
+   * Fetches a node from the network with the options provided.
+   * @param {string} address - The address corresponding to the node.
+   * @param {GetNodesOptions} getNodesOptions - The options to pass in to the query.
+   * @returns {Node} - The node requested and its information.
+   * */
+  async getNode({
+    address,
+    blockHeight,
+  }: {
+    address: string | Promise<string>
+    blockHeight?: number
+  }): Promise<Node> {
+    const node = (await this.request({
+      route: V1RpcRoutes.QueryNode,
+      body: {
+        address: await address,
+        ...(blockHeight ? { height: blockHeight } : {}),
+      },
+      expect: 'chains',
+    })) as any
+
+    return BaseProvider.asNode(node)
+  }
+
+  /**
+   * Fetches apps from the network with the options provided.
+   * @param {GetAppOptions} getAppOptions - The options to pass in to the query.
+   * @returns {App} - An array with the apps requested and their information.
+   * */
+  async getApps(
+    GetAppsOptions: GetAppsOptions = {
+      blockHeight: 0,
+      page: 1,
+      perPage: 100,
+    }
+  ): Promise<Paginable<App>> {
+    const { blockHeight: height } = GetAppsOptions
+
+    const parsedRes = (await this.request({
+      route: V1RpcRoutes.QueryApps,
+      body: {
+        height,
+        opts: {
+          page: GetAppsOptions.page ?? 1,
+          per_page: GetAppsOptions.perPage ?? 100,
+          ...(GetAppsOptions?.stakingStatus
+            ? { staking_status: GetAppsOptions.stakingStatus }
+            : {}),
+          ...(GetAppsOptions?.blockchain
+            ? { blockchain: GetAppsOptions.blockchain }
+            : {}),
+        },
+      },
+      ...(GetAppsOptions?.timeout ? { timeout: GetAppsOptions.timeout } : {}),
+      retryPolicy: GetAppsOptions?.retryPolicy,
+      expect: 'result',
+    })) as any
+
+    const apps = parsedRes.result.map((app) => {
+      const {
+        address,
+        chains,
+        jailed,
+        max_relays,
+        public_key,
+        staked_tokens,
+        status,
+      } = app
+
+      return {
+        address,
+        chains,
+        publicKey: public_key,
+        jailed,
+        maxRelays: max_relays ?? '',
+        stakedTokens: staked_tokens ?? '0',
+        status,
+      } as App
+    })
+
+    return {
+      data: apps,
+      page: GetAppsOptions.page,
+      perPage: GetAppsOptions.perPage,
+      totalPages: parsedRes.total_pages,
+    } as Paginable<App>
+  }
+
+  /**
+   * Fetches an app from the network with the options provided.
+   * @param {string} address - The address of the app to fetch.
+   * @param {GetAppOptions} getAppOptions - The options to pass in to the query.
+   * @returns {App} - The app requested and its information.
+   * */
+  async getApp({
+    address,
+    blockHeight,
+  }: {
+    address: string | Promise<string>
+    blockHeight?: number
+  }): Promise<App> {
+    const app = (await this.request({
+      route: V1RpcRoutes.QueryApp,
+      body: {
+        address: await address,
+        ...(blockHeight ? { height: blockHeight } : {}),
+      },
+      expect: 'chains',
+    })) as any
+
+    const { chains, jailed, max_relays, public_key, staked_tokens, status } =
+      app
+
+    return {
+      address: await address,
+      chains,
+      publicKey: public_key,
+      jailed,
+      maxRelays: max_relays ?? '',
+      stakedTokens: staked_tokens ?? '0',
+      status,
+    } as App
+  }
+
+  /**
+   * Fetches an account from the network.
+   * @param {string} address - The address of the account to fetch.
+   * @returns {Account} - The account requested and its information.
+   * */
+  async getAccount(address: string | Promise<string>): Promise<Account> {
+    const account = (await this.request({
+      route: V1RpcRoutes.QueryAccount,
+      body: { address: await address },
+      expect: 'address',
+    })) as any
+
+    const { coins, public_key } = account
+
+    return {
+      address: await address,
+      balance: coins[0]?.amount ?? 0,
+      publicKey: public_key,
+    }
+  }
+
+  /**
+   * Fetches an account from the network, along with its transactions.
+   * @param {string} address - The address of the account to fetch.
+   * @returns {AccountWithTransaction} - The account requested and its information, along with its transactions.
+   * */
+  async getAccountWithTransactions(
+    address: string | Promise<string>,
+    options: GetAccountWithTransactionsOptions = {
+      page: 1,
+      perPage: 100,
+    }
+  ): Promise<AccountWithTransactions> {
+    const { timeout, retryPolicy, ...txsOptions } = options
+    const account = await this.request({
+      route: V1RpcRoutes.QueryAccount,
+      body: { address: await address },
+      timeout,
+      retryPolicy,
+      expect: 'address',
+    })
+    const txs = await this.request({
+      route: V1RpcRoutes.QueryAccountTxs,
+      body: { address: await address, ...txsOptions },
+      timeout,
+      retryPolicy,
+      expect: 'total_txs',
+    })
+
+    const { coins, public_key } = account
+    const { total_txs, txs: transactions } = txs
+
+    return {
+      address: await address,
+      balance: coins[0]?.amount ?? 0,
+      publicKey: public_key,
+      totalCount: total_txs,
+      transactions: transactions,
+    }
+  }
+
+  /**
+   * Performs a dispatch request to a random dispatcher from the ones provided. Fails if no dispatcher is found.
+   * @param {DispatchRequest} request - The dispatch request.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.retryAttempts - The number of retries to perform if the first call fails.
+   * @param {boolean} options.rejectSelfSignedCertificates - Option to reject self signed certificates or not.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the provider's retry policy for this call.
+   * @param {AbortSignal} options.signal - Aborts the dispatch, retries included, failing it with a RequestAbortedError.
+   * @returns {DispatchResponse} - The dispatch response from the dispatcher node.
+   * */
+  async dispatch(
+    request: DispatchRequest,
+    options: {
+      retryAttempts?: number
+      rejectSelfSignedCertificates?: boolean
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+      signal?: AbortSignal
+    } = {
+      rejectSelfSignedCertificates: false,
+    }
+  ): Promise<DispatchResponse> {
+    if (!this.dispatcherPool.size()) {
+      throw new NoEndpointAvailableError(
+        'You need to have dispatchers to perform a dispatch call'
+      )
+    }
+
+    try {
+      const dispatch = (await this.request({
+        route: V1RpcRoutes.ClientDispatch,
+        body: {
+          app_public_key: request.sessionHeader.applicationPubKey,
+          chain: request.sessionHeader.chain,
+          session_height: request.sessionHeader.sessionBlockHeight,
+        },
+        ...options,
+        expect: 'session',
+      })) as any
+
+      const { block_height: blockHeight, session } = dispatch
+
+      const { header, key, nodes } = session
+      const formattedNodes: Node[] = nodes.map((node) => {
+        const {
+          address,
+          chains,
+          jailed,
+          public_key,
+          service_url,
+          status,
+          tokens,
+          unstaking_time,
+        } = node
+
+        return {
+          address,
+          chains,
+          publicKey: public_key,
+          jailed,
+          serviceUrl: service_url,
+          stakedTokens: tokens.toString(),
+          status,
+          unstakingTime: unstaking_time,
+        } as Node
+      })
+
+      const formattedHeader: SessionHeader = {
+        applicationPubKey: header.app_public_key,
+        chain: header.chain,
+        sessionBlockHeight: header.session_height,
+      }
+
+      return {
+        blockHeight,
+        session: {
+          blockHeight,
+          header: formattedHeader,
+          key,
+          nodes: formattedNodes,
+        },
+      }
+    } catch (err: any) {
+      this.logger(JSON.stringify(err, Object.getOwnPropertyNames(err)))
+      if (
+        err instanceof RpcResponseError ||
+        err instanceof RequestAbortedError ||
+        err instanceof TimeoutError
+      ) {
+        throw err
+      }
+      throw withAttempts(new DispatchersFailureError(), err)
+    }
+  }
+
+  /**
+   * Sends a relay to the network through the main RPC URL provided. Best used through a Relayer.
+   * @param {any} request - The relay request.
+   * @param {string} rpcUrl - The RPC URL to use, if the main RPC URL is not a suitable node to relay requests.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.retryAttempts - The number of retries to perform if the first call fails.
+   * @param {boolean} options.rejectSelfSignedCertificates - Option to reject self signed certificates or not.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the provider's retry policy for this call.
+   * @param {AbortSignal} options.signal - Aborts the relay, retries included, failing it with a RequestAbortedError.
+   * @returns {any} - A relay response.
+   * * */
+  async relay(
+    request,
+    rpcUrl: string,
+    options: {
+      retryAttempts?: number
+      rejectSelfSignedCertificates?: boolean
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+      signal?: AbortSignal
+    } = {
+      rejectSelfSignedCertificates: false,
+    }
+  ): Promise<unknown> {
+    try {
+      const relayAttempt = await this.perform({
+        route: V1RpcRoutes.ClientRelay,
+        body: request,
+        rpcUrl,
+        ...options,
+      })
+
+      const relayResponse = await relayAttempt.json()
+      this.logger(JSON.stringify(relayResponse))
+
+      return relayResponse
+    } catch (err: any) {
+      this.logger(
+        `ERROR: ${JSON.stringify(err, Object.getOwnPropertyNames(err))}`
+      )
+      if (err instanceof RequestAbortedError || err instanceof TimeoutError) {
+        throw err
+      }
+      throw withAttempts(new RelayFailureError(), err)
+    }
+  }
+
+  /**
+   * Converts a ChallengeRelayResponse to the format expected by the RPC
+   * @param {ChallengeRelayResponse} relayResponse - the relay response to convert
+   * @returns {object} - The relay response as expected by /v1/client/challenge
+   * */
+  static asRelayResponseJSON(relayResponse: ChallengeRelayResponse) {
+    const { proof, response, signature } = relayResponse
+    return {
+      signature,
+      response,
+      proof: {
+        request_hash: proof.requestHash,
+        entropy: Number(proof.entropy.toString()),
+        session_block_height: Number(proof.sessionBlockHeight.toString()),
+        servicer_pub_key: proof.servicerPubKey,
+        blockchain: proof.blockchain,
+        aat: {
+          version: proof.token.version,
+          app_pub_key: proof.token.applicationPublicKey,
+          client_pub_key: proof.token.clientPublicKey,
+          signature: proof.token.applicationSignature,
+        },
+        signature: proof.signature,
+      },
+    }
+  }
+
+  /**
+   * Submits a challenge against a servicer that returned a response in disagreement with the rest of the session.
+   * @param {ChallengeRequest} request - The challenge request, best built through the relayer's ChallengeBuilder.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {ChallengeResponse} - The response of the node the challenge was submitted to.
+   * * */
+  async challenge(
+    request: ChallengeRequest,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    } = {}
+  ): Promise<ChallengeResponse> {
+    const challengeResponse = (await this.request({
+      route: V1RpcRoutes.ClientChallenge,
+      body: {
+        majority_responses: request.majorityResponses.map(
+          BaseProvider.asRelayResponseJSON
+        ),
+        minority_response: BaseProvider.asRelayResponseJSON(
+          request.minorityResponse
+        ),
+        reporter_address: request.reporterAddress,
+      },
+      ...options,
+      expect: 'response',
+    })) as any
+    this.logger(JSON.stringify(challengeResponse))
+
+    return { response: challengeResponse.response }
+  }
+
+  /**
+   * Gets all the parameters used to configure the Pocket Network.
+   * @param {number} height - The block height to use to determine the params.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {any} - The raw params.
+   * * */
+  public async getAllParams(
+    height: number,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    }
+  ): Promise<any> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const params = await this.request({
+      route: V1RpcRoutes.QueryAllParams,
+      body: { height },
+      ...options,
+    })
+    this.logger(JSON.stringify(params))
+
+    return params
+  }
+
+  /**
+   * Gets the corresponding node's claims.
+   * @param {string} address - The address of the node to get the claims from.
+   * @param {object} GetNodeClaimsOptions - The options available to tweak the request itself.
+   * @param {number} options.height - The block height to use to determine the result of the call.
+   * @param {number} options.page - The page to get the node claims from.
+   * @param {number} options.perPage - How many claims per page to retrieve.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {any} - The raw node claims.
+   * * */
+  public async getNodeClaims(
+    address: string,
+    options: GetNodeClaimsOptions
+  ): Promise<Paginable<any>> {
+    const nodeClaims = (await this.request({
+      route: V1RpcRoutes.QueryNodeClaims,
+      body: {
+        address,
+        ...(options.height ? { height: options.height } : {}),
+        ...(options.page ? { page: options.page } : {}),
+        ...(options.perPage ? { per_page: options.perPage } : {}),
+      },
+      ...options,
+      expect: 'result',
+    })) as any
+    this.logger(JSON.stringify(nodeClaims))
+
+    return {
+      data: nodeClaims.result,
+      page: nodeClaims.page,
+      totalPages: nodeClaims.total_pages,
+      perPage: options?.perPage ?? 100,
+    }
+  }
+
+  /**
+   * Gets the current Node (pos module) Params.
+   * @param {number} height - The block height to use to determine the Node Params at that point in time.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {NodeParams} - The node params.
+   * * */
+  public async getNodeParams(
+    height: number = 0,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    } = {}
+  ): Promise<NodeParams> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const nodeParams = (await this.request({
+      route: V1RpcRoutes.QueryNodeParams,
+      body: { height },
+      ...options,
+      expect: 'stake_minimum',
+    })) as any
+    this.logger(JSON.stringify(nodeParams))
+
+    return {
+      daoAllocation: Number(nodeParams.dao_allocation),
+      downtimeJailDuration: nodeParams.downtime_jail_duration.toString(),
+      maxEvidenceAge: nodeParams.max_evidence_age.toString(),
+      maxJailedBlocks: Number(nodeParams.max_jailed_blocks),
+      maxValidators: Number(nodeParams.max_validators),
+      maximumChains: Number(nodeParams.maximum_chains),
+      minSignedPerWindow: nodeParams.min_signed_per_window,
+      proposerAllocation: Number(nodeParams.proposer_allocation),
+      relaysToTokensMultiplier: Number(nodeParams.relays_to_tokens_multiplier),
+      servicerStakeFloorMultiplier: Number(
+        nodeParams.servicer_stake_floor_multiplier ?? 0
+      ),
+      servicerStakeFloorMultiplierExponent:
+        nodeParams.servicer_stake_floor_multiplier_exponent ?? '',
+      servicerStakeWeightCeiling: Number(
+        nodeParams.servicer_stake_weight_ceiling ?? 0
+      ),
+      servicerStakeWeightMultiplier:
+        nodeParams.servicer_stake_weight_multiplier ?? '',
+      sessionBlockFrequency: Number(nodeParams.session_block_frequency),
+      signedBlocksWindow: Number(nodeParams.signed_blocks_window),
+      slashFractionDoubleSign: nodeParams.slash_fraction_double_sign,
+      slashFractionDowntime: nodeParams.slash_fraction_downtime,
+      stakeDenom: nodeParams.stake_denom,
+      stakeMinimum: nodeParams.stake_minimum.toString(),
+      unstakingTime: nodeParams.unstaking_time.toString(),
+    }
+  }
+
+  /**
+   * Gets a single claim submitted by a node for the given session.
+   * @param {GetNodeClaimOptions} options - The options available to tweak the request itself.
+   * @param {string} options.address - The address of the node that submitted the claim.
+   * @param {string} options.blockchain - The blockchain the claim was made for.
+   * @param {string} options.appPubKey - The public key of the app the claim was made for.
+   * @param {number} options.sessionBlockHeight - The session block height of the claim.
+   * @param {number} options.height - The block height to use to determine the result of the call.
+   * @param {EvidenceType} options.evidenceType - The type of evidence the claim refers to. Defaults to relays.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {NodeClaim} - The node claim.
+   * * */
+  public async getNodeClaim(options: GetNodeClaimOptions): Promise<NodeClaim> {
+    const nodeClaim = (await this.request({
+      route: V1RpcRoutes.QueryNodeClaim,
+      body: {
+        address: options.address,
+        blockchain: options.blockchain,
+        app_pubkey: options.appPubKey,
+        session_block_height: options.sessionBlockHeight,
+        receipt_type: BaseProvider.asReceiptType(options.evidenceType),
+        ...(options.height ? { height: options.height } : {}),
+      },
+      ...(options.timeout ? { timeout: options.timeout } : {}),
+      retryPolicy: options.retryPolicy,
+      expect: 'merkle_root',
+    })) as any
+    this.logger(JSON.stringify(nodeClaim))
+
+    const {
+      evidence_type,
+      expiration_height,
+      from_address,
+      header,
+      merkle_root,
+      total_proofs,
+    } = nodeClaim
+
+    return {
+      header: {
+        applicationPubKey: header.app_public_key,
+        chain: header.chain,
+        sessionBlockHeight: Number(header.session_height),
+      },
+      merkleRoot: {
+        merkleHash: merkle_root.merkleHash,
+        range: {
+          lower: merkle_root.range.lower.toString(),
+          upper: merkle_root.range.upper.toString(),
+        },
+      },
+      totalProofs: Number(total_proofs),
+      fromAddress: from_address,
+      evidenceType: evidence_type,
+      expirationHeight: Number(expiration_height),
+    }
+  }
+
+  /**
+   * Gets a single receipt of the relays serviced by a node for the given session.
+   * @param {GetNodeReceiptOptions} options - The options available to tweak the request itself.
+   * @param {string} options.address - The address of the node that serviced the relays.
+   * @param {string} options.blockchain - The blockchain the relays were serviced for.
+   * @param {string} options.appPubKey - The public key of the app the relays were serviced for.
+   * @param {number} options.sessionBlockHeight - The session block height of the receipt.
+   * @param {number} options.height - The block height to use to determine the result of the call.
+   * @param {EvidenceType} options.evidenceType - The type of evidence the receipt refers to. Defaults to relays.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {NodeReceipt} - The node receipt.
+   * * */
+  public async getNodeReceipt(
+    options: GetNodeReceiptOptions
+  ): Promise<NodeReceipt> {
+    const nodeReceipt = (await this.request({
+      route: V1RpcRoutes.QueryNodeReceipt,
+      body: {
+        address: options.address,
+        blockchain: options.blockchain,
+        app_pubkey: options.appPubKey,
+        session_block_height: options.sessionBlockHeight,
+        receipt_type: BaseProvider.asReceiptType(options.evidenceType),
+        ...(options.height ? { height: options.height } : {}),
+      },
+      ...(options.timeout ? { timeout: options.timeout } : {}),
+      retryPolicy: options.retryPolicy,
+      expect: 'header',
+    })) as any
+    this.logger(JSON.stringify(nodeReceipt))
+
+    return BaseProvider.asNodeReceipt(nodeReceipt)
+  }
+
+  /**
+   * Gets the corresponding node's receipts.
+   * @param {string} address - The address of the node to get the receipts from.
+   * @param {object} GetNodeReceiptsOptions - The options available to tweak the request itself.
+   * @param {number} options.height - The block height to use to determine the result of the call.
+   * @param {number} options.page - The page to get the node receipts from.
+   * @param {number} options.perPage - How many receipts per page to retrieve.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {Paginable<NodeReceipt>} - The node receipts.
+   * * */
+  public async getNodeReceipts(
+    address: string,
+    options: GetNodeReceiptsOptions = {}
+  ): Promise<Paginable<NodeReceipt>> {
+    const nodeReceipts = (await this.request({
+      route: V1RpcRoutes.QueryNodeReceipts,
+      body: {
+        address,
+        ...(options.height ? { height: options.height } : {}),
+        ...(options.page ? { page: options.page } : {}),
+        ...(options.perPage ? { per_page: options.perPage } : {}),
+      },
+      ...(options.timeout ? { timeout: options.timeout } : {}),
+      retryPolicy: options.retryPolicy,
+      expect: 'result',
+    })) as any
+    this.logger(JSON.stringify(nodeReceipts))
+
+    return {
+      data: (nodeReceipts.result ?? []).map(BaseProvider.asNodeReceipt),
+      page: nodeReceipts.page,
+      totalPages: nodeReceipts.total_pages,
+      perPage: options?.perPage ?? 100,
+    }
+  }
+
+  /**
+   * Gets the latest protocol upgrade scheduled through governance.
+   * @param {number} height - The block height to use to determine the upgrade at that point in time.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {Upgrade} - The upgrade information.
+   * * */
+  public async getUpgrade(
+    height: number = 0,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    } = {}
+  ): Promise<Upgrade> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const upgrade = (await this.request({
+      route: V1RpcRoutes.QueryUpgrade,
+      body: { height },
+      ...options,
+      expect: 'Height',
+    })) as any
+    this.logger(JSON.stringify(upgrade))
+
+    return {
+      height: Number(upgrade.Height),
+      version: upgrade.Version,
+      oldUpgradeHeight: Number(upgrade.OldUpgradeHeight ?? 0),
+      features: upgrade.Features ?? [],
+    }
+  }
+
+  /**
+   * Gets the requested supply information.
+   * @param {number} height - The block height to use to determine the current supply.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {any} - The raw supply info.
+   * * */
+  public async getSupply(
+    height: number = 0,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    }
+  ): Promise<any> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const supply = await this.request({
+      route: V1RpcRoutes.QuerySupply,
+      body: { height },
+      ...options,
+    })
+    this.logger(JSON.stringify(supply))
+
+    return supply
+  }
+
+  /**
+   * Gets the supported chains.
+   * @param {number} height - The block height to use to determine the supported chains at that point in time.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {any} - The currently supported chains.
+   * * */
+  public async getSupportedChains(
+    height: number = 0,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    }
+  ): Promise<any> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const supportedChains = await this.request({
+      route: V1RpcRoutes.QuerySupportedChains,
+      body: { height },
+      ...options,
+    })
+    this.logger(JSON.stringify(supportedChains))
+
+    return supportedChains
+  }
+
+  /**
+   * Gets the current Pocket Network Params.
+   * @param {number} height - The block height to use to determine the Pocket Params at that point in time.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {any} - The raw pocket params.
+   * * */
+  public async getPocketParams(
+    height: number = 0,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    }
+  ): Promise<any> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const pocketParams = await this.request({
+      route: V1RpcRoutes.QueryPocketParams,
+      body: { height },
+      ...options,
+    })
+    this.logger(JSON.stringify(pocketParams))
+
+    return pocketParams
+  }
+
+  /**
+   * Gets the current Application Params.
+   * @param {number} height - The block height to use to determine the Application Params at that point in time.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {any} - The raw application params.
+   * * */
+  public async getAppParams(
+    height: number = 0,
+    options: {
+      timeout?: number
+      retryPolicy?: Partial<RetryPolicy>
+    }
+  ): Promise<any> {
+    if (height < 0) {
+      throw new InvalidArgumentError('Invalid height input')
+    }
+
+    const appParams = await this.request({
+      route: V1RpcRoutes.QueryAppParams,
+      body: { height },
+      ...options,
+    })
+    this.logger(JSON.stringify(appParams))
+
+    return appParams
+  }
+}
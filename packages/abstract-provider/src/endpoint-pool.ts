@@ -0,0 +1,140 @@
+export interface EndpointHealthOptions {
+  // Consecutive failures after which an endpoint is ejected.
+  failureThreshold: number
+  // Error rate (0 to 1) above which an endpoint is ejected, once it has served minSamples requests.
+  maxErrorRate: number
+  minSamples: number
+  // Time an ejected endpoint is kept out of rotation. In milliseconds.
+  cooldown: number
+  // Weight (0 to 1) given to the latest request when averaging latency and error rate.
+  decay: number
+}
+
+export const DEFAULT_ENDPOINT_HEALTH_OPTIONS: EndpointHealthOptions = {
+  failureThreshold: 3,
+  maxErrorRate: 0.5,
+  minSamples: 10,
+  cooldown: 30000,
+  decay: 0.2,
+}
+
+export interface EndpointHealth {
+  url: string
+  healthy: boolean
+  latency?: number
+  errorRate: number
+  requests: number
+  failures: number
+  consecutiveFailures: number
+  ejectedUntil: number
+}
+
+/**
+ * An EndpointPool keeps track of the latency and error rate of a set of endpoints,
+ * taking the ones that keep failing out of rotation for a cool-down period.
+ * */
+export class EndpointPool {
+  private endpoints: EndpointHealth[]
+  private options: EndpointHealthOptions
+
+  constructor(urls: string[], options: Partial<EndpointHealthOptions> = {}) {
+    this.options = { ...DEFAULT_ENDPOINT_HEALTH_OPTIONS, ...options }
+    this.endpoints = urls
+      .filter((url, idx) => !!url && urls.indexOf(url) === idx)
+      .map((url) => ({
+        url,
+        healthy: true,
+        errorRate: 0,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        ejectedUntil: 0,
+      }))
+  }
+
+  size(): number {
+    return this.endpoints.length
+  }
+
+  /**
+   * Picks an endpoint to send a request to. Out of two healthy endpoints picked at
+   * random, the one with the lowest latency wins, so load is spread while slow
+   * endpoints get less traffic. If every endpoint is ejected, the one closest to
+   * the end of its cool-down is returned rather than failing outright.
+   * @param {string[]} exclude - Endpoints that must not be picked, e.g the ones already tried.
+   * @returns {string | undefined} - The endpoint url, or undefined if there's none left.
+   * */
+  select(exclude: string[] = []): string | undefined {
+    const now = Date.now()
+    const available = this.endpoints.filter(({ url }) => !exclude.includes(url))
+    const healthy = available.filter(({ ejectedUntil }) => ejectedUntil <= now)
+
+    if (!healthy.length) {
+      return available.sort((a, b) => a.ejectedUntil - b.ejectedUntil)[0]?.url
+    }
+    if (healthy.length === 1) {
+      return healthy[0].url
+    }
+
+    const first = Math.floor(Math.random() * healthy.length)
+    const second =
+      (first + 1 + Math.floor(Math.random() * (healthy.length - 1))) %
+      healthy.length
+    const [a, b] = [healthy[first], healthy[second]]
+
+    return (a.latency ?? 0) <= (b.latency ?? 0) ? a.url : b.url
+  }
+
+  reportSuccess(url: string, latency: number) {
+    const endpoint = this.endpoints.find((candidate) => candidate.url === url)
+    if (!endpoint) {
+      return
+    }
+
+    this.record(endpoint, latency, false)
+    endpoint.consecutiveFailures = 0
+    endpoint.ejectedUntil = 0
+  }
+
+  reportFailure(url: string, latency: number) {
+    const endpoint = this.endpoints.find((candidate) => candidate.url === url)
+    if (!endpoint) {
+      return
+    }
+
+    this.record(endpoint, latency, true)
+    endpoint.failures++
+    endpoint.consecutiveFailures++
+
+    const { failureThreshold, maxErrorRate, minSamples, cooldown } =
+      this.options
+    if (
+      endpoint.consecutiveFailures >= failureThreshold ||
+      (endpoint.requests >= minSamples && endpoint.errorRate > maxErrorRate)
+    ) {
+      endpoint.ejectedUntil = Date.now() + cooldown
+    }
+  }
+
+  /**
+   * Returns a snapshot of the health of every endpoint in the pool.
+   * @returns {EndpointHealth[]} - The health of each endpoint.
+   * */
+  getHealth(): EndpointHealth[] {
+    const now = Date.now()
+    return this.endpoints.map((endpoint) => ({
+      ...endpoint,
+      healthy: endpoint.ejectedUntil <= now,
+    }))
+  }
+
+  private record(endpoint: EndpointHealth, latency: number, failed: boolean) {
+    const { decay } = this.options
+    endpoint.requests++
+    endpoint.latency =
+      endpoint.latency === undefined
+        ? latency
+        : endpoint.latency * (1 - decay) + latency * decay
+    endpoint.errorRate = endpoint.errorRate * (1 - decay) + (failed ? decay : 0)
+  }
+}
@@ -1,4 +1,6 @@
 import { TransactionResponse } from '@pokt-foundation/pocketjs-types'
+import { RetryAttempt } from './retry-policy'
+import { V1RpcRoutes } from './routes'
 
 export class PocketCoreError extends Error {
   code: number
@@ -39,6 +41,173 @@ export class TimeoutError extends Error {
   }
 }
 
+export class NetworkError extends Error {
+  constructor(...params: any[]) {
+    super(...params)
+    this.name = 'NetworkError'
+    this.message = 'Provider could not reach the node'
+  }
+}
+
+export class RequestAbortedError extends Error {
+  constructor(...params: any[]) {
+    super(...params)
+    this.name = 'RequestAbortedError'
+    this.message = 'Request aborted by the caller'
+  }
+}
+
+export class InvalidArgumentError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.name = 'InvalidArgumentError'
+    this.message = message
+  }
+}
+
+export class NoEndpointAvailableError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.name = 'NoEndpointAvailableError'
+    this.message = message
+  }
+}
+
+/**
+ * Thrown when a node answers a request with an error. Holds everything the node
+ * sent back, along with the pocket-core error code and codespace when present.
+ * */
+export class RpcResponseError extends Error {
+  route: V1RpcRoutes
+  status: number
+  body: string
+  code?: number
+  codespace?: string
+  attempts?: RetryAttempt[]
+
+  constructor(
+    {
+      route,
+      status,
+      body,
+      attempts,
+      message,
+    }: {
+      route: V1RpcRoutes
+      status: number
+      body: string
+      attempts?: RetryAttempt[]
+      message?: string
+    },
+    ...params: any[]
+  ) {
+    super(...params)
+    const pocketCoreError = parsePocketCoreError(body)
+    this.name = 'RpcResponseError'
+    this.message =
+      message ??
+      `${route} failed with status ${status}${
+        pocketCoreError.message ? `: ${pocketCoreError.message}` : ''
+      }`
+    this.route = route
+    this.status = status
+    this.body = body
+    this.code = pocketCoreError.code
+    this.codespace = pocketCoreError.codespace
+    this.attempts = attempts
+  }
+}
+
+/**
+ * Thrown when a node answers successfully, but with a body that isn't JSON
+ * or that lacks the data the request was after.
+ * */
+export class InvalidRpcResponseError extends RpcResponseError {
+  constructor(
+    options: {
+      route: V1RpcRoutes
+      status: number
+      body: string
+      attempts?: RetryAttempt[]
+      message?: string
+    },
+    ...params: any[]
+  ) {
+    super(
+      {
+        message: `${options.route} returned an unexpected response`,
+        ...options,
+      },
+      ...params
+    )
+    this.name = 'InvalidRpcResponseError'
+  }
+}
+
+/**
+ * Extracts the pocket-core error out of a node's response body. Relay errors
+ * hold it in an error object, while query errors carry it formatted in their message.
+ * @param {string} body - The raw response body.
+ * @returns {object} - The error code, codespace and message, whichever could be found.
+ * */
+export function parsePocketCoreError(body: string): {
+  code?: number
+  codespace?: string
+  message?: string
+} {
+  let parsed: any
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return {}
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return {}
+  }
+
+  if (typeof parsed.error === 'object' && parsed.error !== null) {
+    const { code, codespace, message } = parsed.error
+    return { code, codespace, message }
+  }
+
+  const message =
+    typeof parsed.message === 'string' ? parsed.message : undefined
+  const match = message?.match(/Codespace: (\w+)\s+Code: (\d+)/)
+
+  return match
+    ? { code: Number(match[2]), codespace: match[1], message }
+    : { message }
+}
+
+// pocket-core's "pos" and "application" codespaces use it for unknown actors.
+const ACTOR_NOT_FOUND_CODE = 101
+
+/**
+ * Tells whether a node answered a node or app query with the actor not being
+ * found, e.g because it was never staked.
+ * @param {any} error - The error the query failed with.
+ * @returns {boolean} - Whether the actor wasn't found. Other failures, like
+ * timeouts or server errors, are not.
+ * */
+export function isNotFoundError(error: any): boolean {
+  if (
+    !(error instanceof RpcResponseError) ||
+    error instanceof InvalidRpcResponseError
+  ) {
+    return false
+  }
+
+  if (
+    error.code === ACTOR_NOT_FOUND_CODE &&
+    (error.codespace === 'pos' || error.codespace === 'application')
+  ) {
+    return true
+  }
+
+  const { message } = parsePocketCoreError(error.body)
+  return /not found|does not exist/.test(message ?? '')
+}
+
 export class SignatureVerificationFailedError extends PocketCoreError {
   constructor(message: string, ...params: any[]) {
     super(PocketCoreErrorCodes.UnauthorizedError, message, ...params)
@@ -0,0 +1,29 @@
+export type HookEvent<H, K extends keyof H> = NonNullable<H[K]> extends (
+  event: infer E
+) => void
+  ? E
+  : never
+
+/**
+ * Calls a hook, if set. Hooks are there to observe requests, so a hook that
+ * throws is logged rather than failing the request it was called for.
+ * @param {object} hooks - The hooks set by the user.
+ * @param {string} hook - The name of the hook to call.
+ * @param {object} event - The event to pass to the hook.
+ * @param {Function} logger - Where to log a failing hook.
+ * */
+export function callHook<H, K extends keyof H>(
+  hooks: H,
+  hook: K,
+  event: HookEvent<H, K>,
+  logger: (message: string) => void
+) {
+  try {
+    const handler = hooks[hook] as unknown as
+      | ((event: HookEvent<H, K>) => void)
+      | undefined
+    handler?.call(hooks, event)
+  } catch (err: any) {
+    logger(`${String(hook)} hook failed: ${err?.message}`)
+  }
+}
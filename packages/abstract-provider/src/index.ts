@@ -1,3 +1,11 @@
+export * from './abort'
 export * from './abstract-provider'
+export * from './base-provider'
+export * from './endpoint-pool'
 export * from './errors'
+export * from './hooks'
+export * from './metrics'
+export * from './params'
+export * from './retry-policy'
 export * from './routes'
+export * from './transport'
@@ -0,0 +1,195 @@
+import {
+  RelayerHooks,
+  ResponseEvent,
+  RetryEvent,
+  SessionRenewedEvent,
+} from '@pokt-foundation/pocketjs-types'
+
+// Upper bounds of the request duration buckets, in seconds.
+export const DEFAULT_DURATION_BUCKETS = [
+  0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+]
+
+interface Histogram {
+  labels: string
+  counts: number[]
+  sum: number
+  count: number
+}
+
+const COUNTERS = {
+  requests_total:
+    'Requests sent, by route, url and HTTP status or error class.',
+  retries_total: 'Requests retried, by route and url of the failed attempt.',
+  relays_total:
+    'Relays sent through a relayer, by servicer url and "success" or error class.',
+  relay_errors_total: 'Relays that failed, by servicer url and error class.',
+  session_renewals_total:
+    'Sessions renewed after a servicer rejected a relay, by chain and error class.',
+}
+
+const HISTOGRAMS = {
+  request_duration_seconds: 'Duration of requests, by route and url.',
+  relay_duration_seconds:
+    'Duration of relays sent through a relayer, by servicer url.',
+}
+
+type CounterName = keyof typeof COUNTERS
+type HistogramName = keyof typeof HISTOGRAMS
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Record<string, string | number>): string {
+  return Object.keys(labels)
+    .map((key) => `${key}="${escapeLabelValue(String(labels[key]))}"`)
+    .join(',')
+}
+
+/**
+ * A MetricsCollector turns the events of a provider or a relayer into request,
+ * latency, retry and error metrics, rendered in the Prometheus text format.
+ * Pass its hooks to the providers and relayers to collect from. A relayer's
+ * events, which carry the servicer, are kept apart from the HTTP requests its
+ * provider reports, so sharing a collector between both counts each once.
+ * */
+export class MetricsCollector {
+  readonly hooks: RelayerHooks
+  private prefix: string
+  private buckets: number[]
+  private counters: Record<string, Record<string, number>> = {}
+  private histograms: Record<string, Record<string, Histogram>> = {}
+
+  /**
+   * @param {string} prefix - Prefix of every metric name. Defaults to "pocketjs".
+   * @param {number[]} buckets - Upper bounds of the request duration buckets, in seconds.
+   * */
+  constructor({
+    prefix = 'pocketjs',
+    buckets = DEFAULT_DURATION_BUCKETS,
+  }: { prefix?: string; buckets?: number[] } = {}) {
+    this.prefix = prefix
+    this.buckets = buckets.slice().sort((a, b) => a - b)
+    this.hooks = {
+      onResponse: (event) =>
+        event.node ? this.recordRelay(event) : this.recordResponse(event),
+      onRelayError: (event) => this.recordRelay(event),
+      onRetry: (event) => this.recordRetry(event),
+      onSessionRenewed: (event) => this.recordSessionRenewal(event),
+    }
+  }
+
+  /**
+   * Renders every metric collected so far in the Prometheus text format.
+   * @returns {string} - The metrics, ready to be served on a /metrics endpoint.
+   * */
+  render(): string {
+    const lines: string[] = []
+
+    Object.keys(COUNTERS).forEach((name) => {
+      const metric = `${this.prefix}_${name}`
+      const series = this.counters[name] ?? {}
+      lines.push(`# HELP ${metric} ${COUNTERS[name as CounterName]}`)
+      lines.push(`# TYPE ${metric} counter`)
+      Object.keys(series).forEach((labels) =>
+        lines.push(`${metric}{${labels}} ${series[labels]}`)
+      )
+    })
+
+    Object.keys(HISTOGRAMS).forEach((histogramName) => {
+      const name = `${this.prefix}_${histogramName}`
+      const series = this.histograms[histogramName] ?? {}
+      lines.push(`# HELP ${name} ${HISTOGRAMS[histogramName as HistogramName]}`)
+      lines.push(`# TYPE ${name} histogram`)
+      Object.keys(series).forEach((key) => {
+        const { labels, counts, sum, count } = series[key]
+        this.buckets.forEach((le, idx) =>
+          lines.push(`${name}_bucket{${labels},le="${le}"} ${counts[idx]}`)
+        )
+        lines.push(`${name}_bucket{${labels},le="+Inf"} ${count}`)
+        lines.push(`${name}_sum{${labels}} ${sum}`)
+        lines.push(`${name}_count{${labels}} ${count}`)
+      })
+    })
+
+    return `${lines.join('\n')}\n`
+  }
+
+  /**
+   * Drops every metric collected so far.
+   * */
+  reset() {
+    this.counters = {}
+    this.histograms = {}
+  }
+
+  private recordResponse({
+    route,
+    url,
+    latency,
+    status,
+    error,
+  }: ResponseEvent) {
+    this.increment('requests_total', {
+      route,
+      url,
+      status: status ?? error ?? 'unknown',
+    })
+    this.observe(
+      'request_duration_seconds',
+      formatLabels({ route, url }),
+      latency / 1000
+    )
+  }
+
+  private recordRelay({ url, latency, error }: ResponseEvent) {
+    this.increment('relays_total', { url, result: error ?? 'success' })
+    this.observe(
+      'relay_duration_seconds',
+      formatLabels({ url }),
+      latency / 1000
+    )
+    if (error) {
+      this.increment('relay_errors_total', { url, error })
+    }
+  }
+
+  private recordRetry({ route, url }: RetryEvent) {
+    this.increment('retries_total', { route, url })
+  }
+
+  private recordSessionRenewal({ session, error }: SessionRenewedEvent) {
+    this.increment('session_renewals_total', {
+      chain: session.header.chain,
+      error: error?.name ?? 'unknown',
+    })
+  }
+
+  private increment(
+    name: CounterName,
+    labels: Record<string, string | number>
+  ) {
+    const series = (this.counters[name] = this.counters[name] ?? {})
+    const key = formatLabels(labels)
+    series[key] = (series[key] ?? 0) + 1
+  }
+
+  private observe(name: HistogramName, labels: string, seconds: number) {
+    const series = (this.histograms[name] = this.histograms[name] ?? {})
+    const histogram = (series[labels] = series[labels] ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })
+
+    this.buckets.forEach((le, idx) => {
+      if (seconds <= le) {
+        histogram.counts[idx]++
+      }
+    })
+    histogram.sum += seconds
+    histogram.count++
+  }
+}
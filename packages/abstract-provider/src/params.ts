@@ -0,0 +1,39 @@
+/**
+ * A network param, as listed by getAllParams.
+ */
+export interface NetworkParam {
+  param_key: string
+  param_value: unknown
+}
+
+// The output of getAllParams: groups of params, e.g "node_params".
+export type AllParams = Record<string, unknown>
+
+function isNetworkParam(param: unknown): param is NetworkParam {
+  return typeof param === 'object' && param !== null && 'param_key' in param
+}
+
+/**
+ * Finds a param in the output of getAllParams. Values are JSON encoded, so
+ * numbers may come quoted: the quotes are left out.
+ * @param {AllParams} allParams - The params, as returned by getAllParams.
+ * @param {string} key - The param key e.g "pos/BlocksPerSession".
+ * @returns {string | undefined} - The param value, if found.
+ * */
+export function getParam(
+  allParams: AllParams | undefined,
+  key: string
+): string | undefined {
+  const groups = allParams ?? {}
+  const param = Object.keys(groups)
+    .map((group) => groups[group])
+    .filter((group): group is unknown[] => Array.isArray(group))
+    .reduce<unknown[]>((acc, group) => acc.concat(group), [])
+    .filter(isNetworkParam)
+    .find(({ param_key }) => param_key === key)
+
+  if (param?.param_value === undefined || param.param_value === null) {
+    return undefined
+  }
+  return String(param.param_value).replace(/"/g, '')
+}
@@ -0,0 +1,105 @@
+import { RetryPolicy } from '@pokt-foundation/pocketjs-types'
+import { V1RpcRoutes } from './routes'
+
+/**
+ * The policy every provider starts from: a single attempt, so retries are opt-in.
+ * When retries are enabled, network failures, timeouts, rate limiting and
+ * gateway errors are the ones considered transient.
+ * */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelay: 100,
+  maxDelay: 5000,
+  jitter: 0.5,
+  retryableStatusCodes: [408, 425, 429, 500, 502, 503, 504],
+  retryableErrors: ['AbortError', 'TypeError', 'FetchError'],
+}
+
+export interface RetryAttempt {
+  attempt: number
+  url: string
+  duration: number
+  status?: number
+  error?: string
+}
+
+export type ErrorWithAttempts = Error & { attempts?: RetryAttempt[] }
+
+/**
+ * Builds the policy to apply to a single call. Later sources take precedence:
+ * the defaults, the provider's policy and its route override, the legacy
+ * retryAttempts option and finally the per-call policy and its route override.
+ * @param {V1RpcRoutes} route - The route being called.
+ * @param {Partial<RetryPolicy>} providerPolicy - The policy the provider was constructed with.
+ * @param {Partial<RetryPolicy>} callPolicy - The policy passed along with the call.
+ * @param {number} retryAttempts - Number of retries, kept for backwards compatibility.
+ * @returns {RetryPolicy} - The resolved policy, without route overrides.
+ * */
+export function resolveRetryPolicy({
+  route,
+  providerPolicy = {},
+  callPolicy = {},
+  retryAttempts,
+}: {
+  route: V1RpcRoutes
+  providerPolicy?: Partial<RetryPolicy>
+  callPolicy?: Partial<RetryPolicy>
+  retryAttempts?: number
+}): RetryPolicy {
+  const { routes: providerRoutes, ...providerBase } = providerPolicy
+  const { routes: callRoutes, ...callBase } = callPolicy
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...providerBase,
+    ...(providerRoutes?.[route] ?? {}),
+    ...(retryAttempts !== undefined ? { maxAttempts: retryAttempts + 1 } : {}),
+    ...callBase,
+    ...(callRoutes?.[route] ?? {}),
+  }
+}
+
+/**
+ * Computes how long to wait before the next attempt, doubling the base delay
+ * on every attempt and randomizing the configured fraction of it.
+ * @param {RetryPolicy} policy - The policy in use.
+ * @param {number} attempt - The attempt that just failed, starting at 1.
+ * @returns {number} - The delay in milliseconds.
+ * */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const exponentialDelay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** (attempt - 1)
+  )
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1)
+
+  return Math.round(exponentialDelay * (1 - jitter * Math.random()))
+}
+
+export function isRetryableStatus(policy: RetryPolicy, status: number) {
+  return policy.retryableStatusCodes.includes(status)
+}
+
+export function isRetryableError(policy: RetryPolicy, error: any) {
+  return policy.retryableErrors.some((retryableError) =>
+    typeof retryableError === 'string'
+      ? error?.name === retryableError
+      : error instanceof retryableError
+  )
+}
+
+/**
+ * Copies the attempts recorded on a failed request onto the error that is
+ * going to be surfaced in its place.
+ * @param {Error} error - The error to throw.
+ * @param {any} cause - The error that was caught.
+ * @returns {ErrorWithAttempts} - The error to throw, with the attempts attached.
+ * */
+export function withAttempts<T extends Error>(
+  error: T,
+  cause: any
+): T & ErrorWithAttempts {
+  return cause?.attempts
+    ? Object.assign(error, { attempts: cause.attempts })
+    : error
+}
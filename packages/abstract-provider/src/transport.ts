@@ -0,0 +1,29 @@
+/**
+ * The HTTP request a provider hands over to its transport.
+ */
+export interface TransportRequest {
+  method: string
+  headers: Record<string, string>
+  // Left out for requests that can't have a body, such as GET.
+  body?: string | Uint8Array
+  signal?: AbortSignal
+}
+
+/**
+ * The subset of a Fetch API Response that providers rely on.
+ */
+export interface TransportResponse {
+  readonly ok: boolean
+  readonly status: number
+  json(): Promise<unknown>
+  text(): Promise<string>
+}
+
+/**
+ * A Transport is the HTTP layer of a provider. All the query, dispatch and
+ * relay logic lives in the BaseProvider, so supporting a new runtime only
+ * requires a Transport backed by that runtime's fetch implementation.
+ */
+export interface Transport {
+  send(url: string, request: TransportRequest): Promise<TransportResponse>
+}
@@ -3,7 +3,7 @@ import { DEFAULT_URL } from './test-utils'
 import { JsonRpcProvider, extractBasicAuth } from '../src/json-rpc-provider'
 import { V1RpcRoutes } from '@pokt-foundation/pocketjs-abstract-provider'
 import { responseSamples } from './response-samples'
-import { RawTxRequest } from '@pokt-foundation/pocketjs-types'
+import { EvidenceType, RawTxRequest } from '@pokt-foundation/pocketjs-types'
 
 describe('JsonRpcProvider tests', () => {
   let provider: JsonRpcProvider
@@ -59,14 +59,14 @@ describe('JsonRpcProvider tests', () => {
         method: 'POST',
         body: responseSamples.queryAppFail().request,
       })
-      .reply(200, responseSamples.queryAppFail().response)
+      .reply(400, responseSamples.queryAppFail().response)
     jsonRpcMockClient
       .intercept({
         path: `${DEFAULT_URL}${V1RpcRoutes.QueryNode}`,
         method: 'POST',
         body: responseSamples.queryNodeFail().request,
       })
-      .reply(200, responseSamples.queryNodeFail().response)
+      .reply(400, responseSamples.queryNodeFail().response)
     const ans = await provider.getType(
       'ce16bb2714f93cfb3c00b5bd4b16dc5d8ca1687a'
     )
@@ -81,7 +81,7 @@ describe('JsonRpcProvider tests', () => {
         method: 'POST',
         body: responseSamples.queryApp().request,
       })
-      .reply(200, responseSamples.queryAppFail().response)
+      .reply(400, responseSamples.queryAppFail().response)
     jsonRpcMockClient
       .intercept({
         path: `${DEFAULT_URL}${V1RpcRoutes.QueryNode}`,
@@ -161,6 +161,113 @@ describe('JsonRpcProvider tests', () => {
     expect(ans).toBe(59133)
   })
 
+  it('Gets the node params', async () => {
+    jsonRpcMockClient
+      .intercept({
+        path: `${DEFAULT_URL}${V1RpcRoutes.QueryNodeParams}`,
+        method: 'POST',
+        body: responseSamples.queryNodeParams().request,
+      })
+      .reply(200, responseSamples.queryNodeParams().response)
+    const ans = await provider.getNodeParams()
+    expect(ans.stakeMinimum).toBe('15000000000')
+    expect(ans.sessionBlockFrequency).toBe(4)
+    expect(ans.maximumChains).toBe(15)
+  })
+
+  it('Gets a node claim', async () => {
+    jsonRpcMockClient
+      .intercept({
+        path: `${DEFAULT_URL}${V1RpcRoutes.QueryNodeClaim}`,
+        method: 'POST',
+        body: responseSamples.queryNodeClaim().request,
+      })
+      .reply(200, responseSamples.queryNodeClaim().response)
+    const ans = await provider.getNodeClaim({
+      address: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+      blockchain: '0021',
+      appPubKey:
+        'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+      sessionBlockHeight: 59129,
+    })
+    expect(ans.header.chain).toBe('0021')
+    expect(ans.header.sessionBlockHeight).toBe(59129)
+    expect(ans.totalProofs).toBe(214)
+    expect(ans.evidenceType).toBe(EvidenceType.RelayEvidence)
+  })
+
+  it('Gets the node receipts', async () => {
+    jsonRpcMockClient
+      .intercept({
+        path: `${DEFAULT_URL}${V1RpcRoutes.QueryNodeReceipts}`,
+        method: 'POST',
+        body: responseSamples.queryNodeReceipts().request,
+      })
+      .reply(200, responseSamples.queryNodeReceipts().response)
+    const ans = await provider.getNodeReceipts(
+      '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+      { height: 59133 }
+    )
+    expect(ans.totalPages).toBe(1)
+    expect(ans.data[0].servicerAddress).toBe(
+      '3808c2de7d2e8eeaa2e13768feb78b10b13c8699'
+    )
+    expect(ans.data[0].totalRelays).toBe(214)
+  })
+
+  it('Gets the latest upgrade', async () => {
+    jsonRpcMockClient
+      .intercept({
+        path: `${DEFAULT_URL}${V1RpcRoutes.QueryUpgrade}`,
+        method: 'POST',
+        body: responseSamples.queryUpgrade().request,
+      })
+      .reply(200, responseSamples.queryUpgrade().response)
+    const ans = await provider.getUpgrade()
+    expect(ans.height).toBe(69232)
+    expect(ans.version).toBe('FEATURE')
+    expect(ans.features).toEqual(['RSCAL:69232', 'VEDIT:69232'])
+  })
+
+  it('Submits a challenge', async () => {
+    jsonRpcMockClient
+      .intercept({
+        path: `${DEFAULT_URL}${V1RpcRoutes.ClientChallenge}`,
+        method: 'POST',
+        body: responseSamples.clientChallenge().request,
+      })
+      .reply(200, responseSamples.clientChallenge().response)
+    const proof = {
+      entropy: '3908904207717607',
+      sessionBlockHeight: 59129,
+      servicerPubKey:
+        'b3ec0904fbaa3b61e41502641af78dfa72f93437a760bf5c529cd97444bd101f',
+      blockchain: '0021',
+      token: {
+        version: '0.0.1',
+        applicationPublicKey:
+          'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+        clientPublicKey:
+          'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+        applicationSignature: 'deadbeef',
+      },
+      signature: 'beefdead',
+      requestHash: 'cafe',
+    }
+    const ans = await provider.challenge({
+      majorityResponses: [
+        { signature: 'aa', response: '{"result":"0x1"}', proof },
+      ],
+      minorityResponse: {
+        signature: 'bb',
+        response: '{"result":"0x2"}',
+        proof,
+      },
+      reporterAddress: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+    })
+    expect(ans.response).toBe('success')
+  })
+
   it('extractBasicAuth test', () => {
     let {urlStr, basicAuth} =
     extractBasicAuth('https://localhost:8082');
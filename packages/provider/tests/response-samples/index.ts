@@ -129,4 +129,128 @@ export const responseSamples = {
       response: { height: 59133 },
     }
   },
+  queryNodeParams() {
+    return {
+      request: JSON.stringify({ height: 0 }),
+      response: {
+        dao_allocation: '10',
+        downtime_jail_duration: '3600000000000',
+        max_evidence_age: '120000000000',
+        max_jailed_blocks: '37960',
+        max_validators: '1000',
+        maximum_chains: '15',
+        min_signed_per_window: '0.600000000000000000',
+        proposer_allocation: '5',
+        relays_to_tokens_multiplier: '8461',
+        servicer_stake_floor_multiplier: '15000000000',
+        servicer_stake_floor_multiplier_exponent: '1.000000000000000000',
+        servicer_stake_weight_ceiling: '60000000000',
+        servicer_stake_weight_multiplier: '1.000000000000000000',
+        session_block_frequency: '4',
+        signed_blocks_window: '10',
+        slash_fraction_double_sign: '0.000001000000000000',
+        slash_fraction_downtime: '0.000001000000000000',
+        stake_denom: 'upokt',
+        stake_minimum: '15000000000',
+        unstaking_time: '1814000000000000',
+      },
+    }
+  },
+  queryNodeClaim() {
+    return {
+      request: JSON.stringify({
+        address: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+        blockchain: '0021',
+        app_pubkey:
+          'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+        session_block_height: 59129,
+        receipt_type: 'relay',
+      }),
+      response: {
+        evidence_type: 1,
+        expiration_height: '59250',
+        from_address: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+        header: {
+          app_public_key:
+            'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+          chain: '0021',
+          session_height: '59129',
+        },
+        merkle_root: {
+          merkleHash: 'nY5SwCiRP9I5DfDpBmkAIYzZPzgyUiCFbWeEwKK7PDA=',
+          range: { lower: '0', upper: '18446744073709551615' },
+        },
+        total_proofs: '214',
+      },
+    }
+  },
+  queryNodeReceipts() {
+    return {
+      request: JSON.stringify({
+        address: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+        height: 59133,
+      }),
+      response: {
+        page: 1,
+        result: [
+          {
+            address: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+            evidence_type: 1,
+            header: {
+              app_public_key:
+                'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+              chain: '0021',
+              session_height: '59129',
+            },
+            relays: '214',
+          },
+        ],
+        total_pages: 1,
+      },
+    }
+  },
+  queryUpgrade() {
+    return {
+      request: JSON.stringify({ height: 0 }),
+      response: {
+        Features: ['RSCAL:69232', 'VEDIT:69232'],
+        Height: '69232',
+        OldUpgradeHeight: '0',
+        Version: 'FEATURE',
+      },
+    }
+  },
+  clientChallenge() {
+    const proof = {
+      request_hash: 'cafe',
+      entropy: 3908904207717607,
+      session_block_height: 59129,
+      servicer_pub_key:
+        'b3ec0904fbaa3b61e41502641af78dfa72f93437a760bf5c529cd97444bd101f',
+      blockchain: '0021',
+      aat: {
+        version: '0.0.1',
+        app_pub_key:
+          'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+        client_pub_key:
+          'a3edc0d94701ce5e0692754b519ab125c921c704f11439638834894a5ec5fa53',
+        signature: 'deadbeef',
+      },
+      signature: 'beefdead',
+    }
+    return {
+      request: JSON.stringify({
+        majority_responses: [
+          { signature: 'aa', response: '{"result":"0x1"}', proof },
+        ],
+        minority_response: {
+          signature: 'bb',
+          response: '{"result":"0x2"}',
+          proof,
+        },
+        reporter_address: '3808c2de7d2e8eeaa2e13768feb78b10b13c8699',
+      }),
+      response: { response: 'success' },
+    }
+  },
 }
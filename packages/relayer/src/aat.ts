@@ -0,0 +1,153 @@
+import { Buffer } from 'buffer'
+import sha3 from 'js-sha3'
+import { KeyManager } from '@pokt-foundation/pocketjs-signer'
+import { PocketAAT } from '@pokt-foundation/pocketjs-types'
+import { InvalidAATError } from './errors'
+
+// The AAT versions pocket-core accepts.
+export const SUPPORTED_AAT_VERSIONS = ['0.0.1']
+
+const PUBLIC_KEY_LENGTH = 64
+const SIGNATURE_LENGTH = 128
+
+// Lowercase only: the AAT is hashed as is, and going through bytes, as
+// encodeAAT and decodeAAT do, would lowercase it and change its hash.
+function isHex(value: string, length: number): boolean {
+  return (
+    typeof value === 'string' &&
+    value.length === length &&
+    /^[0-9a-f]*$/.test(value)
+  )
+}
+
+/**
+ * Hashes an AAT the way pocket-core does, leaving its signature out, which
+ * gives the payload the application signs.
+ * @param {PocketAAT} aat - The AAT to hash.
+ * @returns {string} - The hash, as a hex string.
+ * */
+export function hashAAT(aat: PocketAAT): string {
+  const token = {
+    version: aat.version,
+    app_pub_key: aat.applicationPublicKey,
+    client_pub_key: aat.clientPublicKey,
+    signature: '',
+  }
+  const hash = sha3.sha3_256.create()
+  hash.update(JSON.stringify(token))
+  return hash.hex()
+}
+
+export function isSupportedAATVersion(version: string): boolean {
+  return SUPPORTED_AAT_VERSIONS.includes(version)
+}
+
+/**
+ * Checks that an AAT is well formed and of a version pocket-core accepts,
+ * with its keys and signature in lowercase hex. The signature itself is
+ * checked by verifyAAT.
+ * @param {PocketAAT} aat - The AAT to validate.
+ * @throws {InvalidAATError} - If the AAT is malformed, with the reason why.
+ * */
+export function validateAAT(aat: PocketAAT) {
+  if (!aat?.version) {
+    throw new InvalidAATError('The AAT has no version')
+  }
+  if (!isSupportedAATVersion(aat.version)) {
+    throw new InvalidAATError(
+      `Unsupported AAT version ${
+        aat.version
+      }, expected one of ${SUPPORTED_AAT_VERSIONS.join(', ')}`
+    )
+  }
+  if (!isHex(aat.applicationPublicKey, PUBLIC_KEY_LENGTH)) {
+    throw new InvalidAATError(
+      'The application public key of the AAT is not a valid public key'
+    )
+  }
+  if (!isHex(aat.clientPublicKey, PUBLIC_KEY_LENGTH)) {
+    throw new InvalidAATError(
+      'The client public key of the AAT is not a valid public key'
+    )
+  }
+  if (!isHex(aat.applicationSignature, SIGNATURE_LENGTH)) {
+    throw new InvalidAATError(
+      'The application signature of the AAT is not a valid signature'
+    )
+  }
+}
+
+/**
+ * Verifies that an AAT is well formed, of a supported version, and signed by
+ * the application it was issued for.
+ * @param {PocketAAT} aat - The AAT to verify.
+ * @returns {boolean} - Whether the AAT is valid.
+ * */
+export async function verifyAAT(aat: PocketAAT): Promise<boolean> {
+  try {
+    validateAAT(aat)
+  } catch (err) {
+    return false
+  }
+
+  return KeyManager.verifySignature({
+    payload: hashAAT(aat),
+    signature: aat.applicationSignature,
+    publicKey: aat.applicationPublicKey,
+  })
+}
+
+/**
+ * Encodes an AAT into a compact, url-safe string: its version, followed by
+ * its keys and signature in base64url, e.g "0.0.1.RnzI...".
+ * @param {PocketAAT} aat - The AAT to encode.
+ * @returns {string} - The encoded AAT.
+ * @throws {InvalidAATError} - If the AAT is malformed.
+ * */
+export function encodeAAT(aat: PocketAAT): string {
+  validateAAT(aat)
+
+  const encoded = Buffer.from(
+    aat.applicationPublicKey + aat.clientPublicKey + aat.applicationSignature,
+    'hex'
+  )
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+  return `${aat.version}.${encoded}`
+}
+
+/**
+ * Decodes an AAT encoded by encodeAAT.
+ * @param {string} encodedAAT - The encoded AAT.
+ * @returns {PocketAAT} - The AAT.
+ * @throws {InvalidAATError} - If the string is not a valid encoded AAT.
+ * */
+export function decodeAAT(encodedAAT: string): PocketAAT {
+  const separator = encodedAAT.lastIndexOf('.')
+  const encoded = encodedAAT.slice(separator + 1)
+
+  if (separator < 0 || !/^[A-Za-z0-9_-]+$/.test(encoded)) {
+    throw new InvalidAATError('Malformed encoded AAT')
+  }
+
+  const bytes = Buffer.from(
+    encoded.replace(/-/g, '+').replace(/_/g, '/'),
+    'base64'
+  ).toString('hex')
+  if (bytes.length !== PUBLIC_KEY_LENGTH * 2 + SIGNATURE_LENGTH) {
+    throw new InvalidAATError('Malformed encoded AAT')
+  }
+
+  const aat = {
+    version: encodedAAT.slice(0, separator),
+    applicationPublicKey: bytes.slice(0, PUBLIC_KEY_LENGTH),
+    clientPublicKey: bytes.slice(PUBLIC_KEY_LENGTH, PUBLIC_KEY_LENGTH * 2),
+    applicationSignature: bytes.slice(PUBLIC_KEY_LENGTH * 2),
+  }
+  validateAAT(aat)
+
+  return aat
+}
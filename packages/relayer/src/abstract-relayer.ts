@@ -1,51 +1,39 @@
-import { AbstractSigner, KeyManager } from '@pokt-foundation/pocketjs-signer'
-import { AbstractProvider } from '@pokt-foundation/pocketjs-abstract-provider'
 import {
-  HTTPMethod,
-  Node,
-  PocketAAT,
-  RelayHeaders,
+  RelayParams,
+  RelayResult,
   Session,
 } from '@pokt-foundation/pocketjs-types'
+import { SessionOptions } from './session-manager'
 
+/**
+ * The contract every relayer fulfills, so application code can switch between
+ * relayers, e.g sending relays in a session or through a gateway, through configuration.
+ * */
 export abstract class AbstractRelayer {
-  readonly keyManager: KeyManager | AbstractSigner
-  readonly provider: AbstractProvider
-  readonly dispatchers: string[]
-
-  constructor({ keyManager, provider, dispatchers }) {
-    this.keyManager = keyManager
-    this.provider = provider
-    this.dispatchers = dispatchers
-  }
-
+  /**
+   * Dispatches a new session for an application and chain.
+   * @param {string} applicationPubKey - The application's public key. Defaults to the relayer's own application, if any.
+   * @param {string} chain - The chain for the session.
+   * @param {number} sessionBlockHeight - The session block height. Defaults to 0, the latest session.
+   * @param {object} options - The options available to tweak the dispatch.
+   * @returns {Session} - The new session.
+   * */
   abstract getNewSession({
-    pocketAAT,
+    applicationPubKey,
     chain,
+    sessionBlockHeight,
     options,
   }: {
-    pocketAAT: PocketAAT
+    applicationPubKey?: string
     chain: string
-    options?: { retryAttempts: number; rejectSelfSignedCertificates: boolean }
+    sessionBlockHeight?: number
+    options?: SessionOptions & { retryAttempts?: number }
   }): Promise<Session>
 
-  abstract relay({
-    data,
-    blockchain,
-    pocketAAT,
-    headers,
-    method,
-    session,
-    node,
-    path,
-  }: {
-    data: string
-    blockchain: string
-    pocketAAT: PocketAAT
-    headers: RelayHeaders
-    method: HTTPMethod
-    session: Session
-    node: Node
-    path: string
-  }): void
+  /**
+   * Sends a relay to a chain.
+   * @param {RelayParams} params - The relay to send: the chain, the data and optionally the method, path and headers, along with what the relayer needs to send it.
+   * @returns {RelayResult} - The chain's response, along with what the relayer knows about how it was served.
+   * */
+  abstract relay(params: RelayParams): Promise<RelayResult>
 }
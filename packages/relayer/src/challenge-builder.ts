@@ -0,0 +1,114 @@
+import {
+  ChallengeRelayResponse,
+  ChallengeRequest,
+  SignedRelayProof,
+} from '@pokt-foundation/pocketjs-types'
+import { InvalidChallengeError } from './errors'
+
+/**
+ * A relay as returned by Relayer.relay, which can be used as evidence in a challenge.
+ */
+export interface ChallengeableRelay {
+  response: string
+  signature: string
+  relayProof: SignedRelayProof
+}
+
+/**
+ * The ChallengeBuilder turns the relays returned by a Relayer into a challenge request,
+ * so that a servicer returning a response different from the rest of the session can be reported.
+ */
+export class ChallengeBuilder {
+  /**
+   * Builds a challenge request out of relays sent with the same payload to different servicers of a session.
+   * @param {ChallengeableRelay[]} majorityRelays - The relays whose responses are in agreement.
+   * @param {ChallengeableRelay} minorityRelay - The relay whose response disagrees with the majority.
+   * @param {string} reporterAddress - The address of the account reporting the challenge.
+   * @returns {ChallengeRequest} - The challenge request, ready to be sent through a provider.
+   * */
+  static build({
+    majorityRelays,
+    minorityRelay,
+    reporterAddress,
+  }: {
+    majorityRelays: ChallengeableRelay[]
+    minorityRelay: ChallengeableRelay
+    reporterAddress: string
+  }): ChallengeRequest {
+    if (!majorityRelays.length) {
+      throw new InvalidChallengeError(
+        'At least one majority relay is needed to build a challenge'
+      )
+    }
+
+    const [{ response: majorityResponse, relayProof: majorityProof }] =
+      majorityRelays
+
+    for (const relay of [...majorityRelays, minorityRelay]) {
+      if (!relay.signature) {
+        throw new InvalidChallengeError(
+          'Every relay in a challenge must carry the servicer signature'
+        )
+      }
+      if (relay.relayProof.requestHash !== majorityProof.requestHash) {
+        throw new InvalidChallengeError(
+          'Every relay in a challenge must be for the same request'
+        )
+      }
+    }
+
+    if (majorityRelays.some(({ response }) => response !== majorityResponse)) {
+      throw new InvalidChallengeError('Majority relay responses do not match')
+    }
+
+    if (minorityRelay.response === majorityResponse) {
+      throw new InvalidChallengeError(
+        'Minority relay response matches the majority'
+      )
+    }
+
+    const servicers = new Set(
+      [...majorityRelays, minorityRelay].map(
+        ({ relayProof }) => relayProof.servicerPubKey
+      )
+    )
+    if (servicers.size !== majorityRelays.length + 1) {
+      throw new InvalidChallengeError(
+        'Every relay in a challenge must come from a different servicer'
+      )
+    }
+
+    return {
+      majorityResponses: majorityRelays.map(ChallengeBuilder.asRelayResponse),
+      minorityResponse: ChallengeBuilder.asRelayResponse(minorityRelay),
+      reporterAddress,
+    }
+  }
+
+  /**
+   * Converts a relay returned by the Relayer to a ChallengeRelayResponse.
+   * @param {ChallengeableRelay} relay - The relay to convert.
+   * @returns {ChallengeRelayResponse} - The relay response, including its proof.
+   * */
+  static asRelayResponse(relay: ChallengeableRelay): ChallengeRelayResponse {
+    const { relayProof, response, signature } = relay
+    return {
+      signature,
+      response,
+      proof: {
+        entropy: relayProof.entropy.toString(),
+        sessionBlockHeight: relayProof.sessionBlockheight,
+        servicerPubKey: relayProof.servicerPubKey,
+        blockchain: relayProof.blockchain,
+        token: {
+          version: relayProof.aat.version,
+          applicationPublicKey: relayProof.aat.appPubKey,
+          clientPublicKey: relayProof.aat.clientPubKey,
+          applicationSignature: relayProof.aat.signature,
+        },
+        signature: relayProof.signature,
+        requestHash: relayProof.requestHash,
+      },
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Node } from '@pokt-foundation/pocketjs-types'
+import { ChallengeableRelay } from './challenge-builder'
+
+/**
+ * Tells whether two relay responses are to be considered the same answer.
+ * */
+export type ResponseComparator = (a: string, b: string) => boolean
+
+export interface ConsensusRelay extends ChallengeableRelay {
+  serviceNode: Node
+}
+
+export interface ConsensusResult {
+  // The response agreed on by the majority.
+  response: string
+  // Every relay that got a response, each with its proof.
+  relays: ConsensusRelay[]
+  majorityRelays: ConsensusRelay[]
+  minorityRelays: ConsensusRelay[]
+  dissentingNodes: Node[]
+  // Servicers that failed to respond at all, and the name of the error they failed with.
+  failures: { serviceNode: Node; error?: string }[]
+}
+
+export const exactMatch: ResponseComparator = (a, b) => a === b
+
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function jsonRpcOutcome(response: any): string {
+  const outcomes = (Array.isArray(response) ? response : [response])
+    .map(({ id, result, error }) => canonicalize({ id, result, error }))
+    .sort()
+
+  return `[${outcomes.join(',')}]`
+}
+
+/**
+ * Compares JSON-RPC responses by their result or error only, so that responses
+ * with keys in a different order or extra envelope fields still match.
+ * Batch responses match if they have the same outcome for every request id.
+ * Responses that are not valid JSON are compared as they are.
+ * */
+export const jsonRpcResultMatch: ResponseComparator = (a, b) => {
+  try {
+    return jsonRpcOutcome(JSON.parse(a)) === jsonRpcOutcome(JSON.parse(b))
+  } catch (err) {
+    return a === b
+  }
+}
+
+/**
+ * Splits relays into groups of matching responses and picks the group that
+ * holds more than half of them, provided it reaches the quorum.
+ * @param {ConsensusRelay[]} relays - The relays to compare.
+ * @param {ResponseComparator} compare - How to compare responses. Defaults to an exact match.
+ * @param {number} quorum - How many relays must agree. Defaults to more than half of the relays.
+ * @returns {object | undefined} - The relays in the majority and the rest, or undefined if there's no consensus.
+ * */
+export function resolveConsensus({
+  relays,
+  compare = exactMatch,
+  quorum = Math.floor(relays.length / 2) + 1,
+}: {
+  relays: ConsensusRelay[]
+  compare?: ResponseComparator
+  quorum?: number
+}):
+  | { majorityRelays: ConsensusRelay[]; minorityRelays: ConsensusRelay[] }
+  | undefined {
+  const groups: ConsensusRelay[][] = []
+
+  for (const relay of relays) {
+    const group = groups.find(([first]) =>
+      compare(first.response, relay.response)
+    )
+    if (group) {
+      group.push(relay)
+    } else {
+      groups.push([relay])
+    }
+  }
+
+  const majorityRelays = groups.find(
+    (group) => group.length * 2 > relays.length && group.length >= quorum
+  )
+  if (!majorityRelays) {
+    return undefined
+  }
+
+  return {
+    majorityRelays,
+    minorityRelays: relays.filter((relay) => !majorityRelays.includes(relay)),
+  }
+}
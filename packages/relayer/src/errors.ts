@@ -22,6 +22,90 @@ export class NoServiceNodeError extends Error {
   }
 }
 
+export class InvalidChallengeError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidChallengeError'
+  }
+}
+
+export class MissingNetworkParamError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'MissingNetworkParamError'
+  }
+}
+
+export class MissingAATError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'MissingAATError'
+  }
+}
+
+export class UnsupportedOperationError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'UnsupportedOperationError'
+  }
+}
+
+export class GatewayRelayError extends Error {
+  // What the gateway answered with, when it answered.
+  status?: number
+  body?: string
+
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'GatewayRelayError'
+  }
+}
+
+export class InvalidAATError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidAATError'
+  }
+}
+
+export class InvalidRelayDataError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidRelayDataError'
+  }
+}
+
+export class InvalidRelaySignatureError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidRelaySignatureError'
+  }
+}
+
+export class ConsensusNotReachedError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'ConsensusNotReachedError'
+  }
+}
+
+export class RelayBudgetExhaustedError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'RelayBudgetExhaustedError'
+  }
+}
+
 export enum PocketCoreErrorCodes {
   AppNotFoundError = 45,
   DuplicateProofError = 37,
@@ -76,6 +160,9 @@ export class InvalidBlockHeightError extends PocketCoreError {
 }
 
 export class InvalidSessionError extends PocketCoreError {
+  // Current height of the servicer, when it reported it.
+  blockHeight?: number
+
   constructor(code: number, message: string, ...params: any[]) {
     super(code, message, ...params)
     this.name = 'InvalidSessionError'
@@ -104,6 +191,9 @@ export class DuplicateProofError extends PocketCoreError {
 }
 
 export class OutOfSyncRequestError extends PocketCoreError {
+  // Current height of the servicer, when it reported it.
+  blockHeight?: number
+
   constructor(code: number, message: string, ...params: any[]) {
     super(code, message, ...params)
     this.name = 'OutOfSyncRequestError'
@@ -124,6 +214,22 @@ export class HTTPExecutionError extends PocketCoreError {
   }
 }
 
+// Servicers answer session errors with a dispatch of their own, holding their
+// current height.
+function getBlockHeightHint(relayResponse: any): number | undefined {
+  const blockHeight = Number(relayResponse.dispatch?.block_height)
+  return blockHeight > 0 ? blockHeight : undefined
+}
+
+// Servicers report the status of a chain that answered with an error status
+// in the message of the error, e.g "HTTP status code returned not okay: 503".
+function getUpstreamStatus(relayResponse: any): number | undefined {
+  const match = /status code[^0-9]*([1-5][0-9]{2})\b/i.exec(
+    relayResponse.error.message ?? ''
+  )
+  return match ? Number(match[1]) : undefined
+}
+
 export function validateRelayResponse(relayResponse: any) {
   if ('response' in relayResponse && 'signature' in relayResponse) {
     return relayResponse.response
@@ -161,9 +267,12 @@ export function validateRelayResponse(relayResponse: any) {
         relayResponse.error.message
       )
     case PocketCoreErrorCodes.OutOfSyncRequestError:
-      throw new OutOfSyncRequestError(
-        PocketCoreErrorCodes.OutOfSyncRequestError,
-        relayResponse.error.message
+      throw Object.assign(
+        new OutOfSyncRequestError(
+          PocketCoreErrorCodes.OutOfSyncRequestError,
+          relayResponse.error.message
+        ),
+        { blockHeight: getBlockHeightHint(relayResponse) }
       )
     case PocketCoreErrorCodes.OverServiceError:
       throw new OverServiceError(
@@ -181,19 +290,28 @@ export function validateRelayResponse(relayResponse: any) {
         relayResponse.error.message
       )
     case PocketCoreErrorCodes.HTTPExecutionError:
-      throw new HTTPExecutionError(
-        PocketCoreErrorCodes.HTTPExecutionError,
-        relayResponse.error.message
+      throw Object.assign(
+        new HTTPExecutionError(
+          PocketCoreErrorCodes.HTTPExecutionError,
+          relayResponse.error.message
+        ),
+        { status: getUpstreamStatus(relayResponse) }
       )
     case PocketCoreErrorCodes.InvalidSessionError:
-      throw new InvalidSessionError(
-        PocketCoreErrorCodes.InvalidSessionError,
-        relayResponse.error.message
+      throw Object.assign(
+        new InvalidSessionError(
+          PocketCoreErrorCodes.InvalidSessionError,
+          relayResponse.error.message
+        ),
+        { blockHeight: getBlockHeightHint(relayResponse) }
       )
     default:
-      throw new PocketCoreError(
-        relayResponse.error.code,
-        relayResponse.error.message ?? ''
+      throw Object.assign(
+        new PocketCoreError(
+          relayResponse.error.code,
+          relayResponse.error.message ?? ''
+        ),
+        { status: getUpstreamStatus(relayResponse) }
       )
   }
 }
@@ -0,0 +1,223 @@
+import AbortController from 'abort-controller'
+import debug from 'debug'
+import {
+  callHook,
+  extractBasicAuth,
+  getRetryDelay,
+  HookEvent,
+  isRetryableError,
+  isRetryableStatus,
+  resolveRetryPolicy,
+  RequestAbortedError,
+  throwIfAborted,
+  Transport,
+  V1RpcRoutes,
+  waitFor,
+} from '@pokt-foundation/pocketjs-abstract-provider'
+import { undiciTransport } from '@pokt-foundation/pocketjs-provider'
+import {
+  HTTPMethod,
+  RelayerHooks,
+  RelayHeaders,
+  RelayParams,
+  RelayResult,
+  RetryPolicy,
+  Session,
+} from '@pokt-foundation/pocketjs-types'
+import { AbstractRelayer } from './abstract-relayer'
+import {
+  GatewayRelayError,
+  PocketCoreErrorCodes,
+  UnsupportedBlockchainError,
+  UnsupportedOperationError,
+} from './errors'
+import { buildRelayPath, mergeHeaders } from './relay-payload'
+
+const DEFAULT_TIMEOUT = 10000
+
+export interface GatewayRelayResult extends RelayResult {
+  // The HTTP status the gateway answered with.
+  status: number
+}
+
+/**
+ * A GatewayRelayer sends relays through a gateway, such as the Pocket Portal,
+ * which takes care of sessions and servicers. Each chain is served through
+ * its own gateway url.
+ * */
+export class GatewayRelayer implements AbstractRelayer {
+  readonly gatewayUrls: Record<string, string>
+  private headers: RelayHeaders
+  private transport: Transport
+  private retryPolicy: Partial<RetryPolicy>
+  private hooks: RelayerHooks
+  private logger = debug('GatewayRelayer')
+
+  /**
+   * @param {Record<string, string>} gatewayUrls - The gateway url to send the relays of each chain to, by chain id e.g "0021".
+   * @param {RelayHeaders} headers - Headers sent along with every relay, e.g to authenticate with the gateway.
+   * @param {Transport} transport - The HTTP layer used to reach the gateway. Defaults to undici's fetch.
+   * @param {Partial<RetryPolicy>} retryPolicy - How failed relays are retried. A single attempt is made by default.
+   * @param {RelayerHooks} hooks - Callbacks to observe the relays sent.
+   * */
+  constructor({
+    gatewayUrls,
+    headers = {},
+    transport = undiciTransport,
+    retryPolicy = {},
+    hooks = {},
+  }: {
+    gatewayUrls: Record<string, string>
+    headers?: RelayHeaders
+    transport?: Transport
+    retryPolicy?: Partial<RetryPolicy>
+    hooks?: RelayerHooks
+  }) {
+    this.gatewayUrls = gatewayUrls
+    this.headers = headers
+    this.transport = transport
+    this.retryPolicy = retryPolicy
+    this.hooks = hooks
+  }
+
+  /**
+   * Gateways hold the sessions of their applications, so there's none to get.
+   * @throws {UnsupportedOperationError}
+   * */
+  async getNewSession(): Promise<Session> {
+    throw new UnsupportedOperationError(
+      'Sessions are handled by the gateway when relaying through it'
+    )
+  }
+
+  /**
+   * Sends a relay through the gateway of its chain. The session-specific params,
+   * such as the AAT and the session, are ignored.
+   * @param {string} blockchain - The chain to relay to.
+   * @param {string | Uint8Array} data - The data to send, stringified or as is. Binary data is sent as application/octet-stream unless a Content-Type header is given.
+   * @param {object} headers - The headers to include in the call, on top of the relayer's. Header names are case-insensitive, so these override the relayer's and the default ones.
+   * @param {string} method - The HTTP method of the call. Defaults to POST.
+   * @param {string} path - The path to query, appended to the gateway url e.g "/v1/query/node".
+   * @param {RelayQuery} query - Query parameters, encoded and appended to the path.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {number} options.retryAttempts - The number of retries to perform if the first call fails.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the relayer's retry policy for this call.
+   * @param {AbortSignal} options.signal - Aborts the relay, retries included, failing it with a RequestAbortedError.
+   * @returns {GatewayRelayResult} - The response of the chain, along with the HTTP status of the gateway.
+   * */
+  async relay({
+    blockchain,
+    data,
+    headers = null,
+    method = '',
+    path = '',
+    query,
+    options = {},
+  }: RelayParams): Promise<GatewayRelayResult> {
+    const gatewayUrl = this.gatewayUrls[blockchain]
+    if (!gatewayUrl) {
+      throw new UnsupportedBlockchainError(
+        PocketCoreErrorCodes.UnsupportedBlockchainError,
+        `No gateway url configured for chain ${blockchain}`
+      )
+    }
+
+    const { urlStr, basicAuth } = extractBasicAuth(gatewayUrl)
+    const url = urlStr + buildRelayPath(path, query)
+    const httpMethod = method || HTTPMethod.POST
+    const requestHeaders = mergeHeaders(
+      {
+        'Content-Type':
+          typeof data === 'string'
+            ? 'application/json'
+            : 'application/octet-stream',
+      },
+      basicAuth ? { Authorization: basicAuth } : {},
+      this.headers,
+      headers
+    )
+    const policy = resolveRetryPolicy({
+      route: V1RpcRoutes.ClientRelay,
+      providerPolicy: this.retryPolicy,
+      callPolicy: options.retryPolicy,
+      retryAttempts: options.retryAttempts,
+    })
+
+    const { signal } = options
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal)
+      const event = { route: `${V1RpcRoutes.ClientRelay}`, url, attempt }
+      this.emit('onRequest', event)
+
+      const startTime = Date.now()
+      const controller = new AbortController()
+      const timer = setTimeout(
+        () => controller.abort(),
+        options.timeout ?? DEFAULT_TIMEOUT
+      )
+      const abort = () => controller.abort()
+      signal?.addEventListener('abort', abort)
+      let failure: any
+      let retryable: boolean
+
+      try {
+        const res = await this.transport.send(url, {
+          method: httpMethod,
+          signal: controller.signal as AbortSignal,
+          headers: requestHeaders,
+          body: httpMethod === HTTPMethod.GET ? undefined : data,
+        })
+        const body = await res.text()
+
+        if (res.ok) {
+          this.emit('onResponse', {
+            ...event,
+            latency: Date.now() - startTime,
+            status: res.status,
+          })
+          return { response: body, status: res.status }
+        }
+
+        failure = Object.assign(
+          new GatewayRelayError(
+            `Gateway for chain ${blockchain} answered with status ${res.status}`
+          ),
+          { status: res.status, body }
+        )
+        retryable = isRetryableStatus(policy, res.status)
+      } catch (err: any) {
+        failure = signal?.aborted ? new RequestAbortedError() : err
+        retryable = !signal?.aborted && isRetryableError(policy, err)
+      } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', abort)
+      }
+
+      const failedEvent = {
+        ...event,
+        latency: Date.now() - startTime,
+        status: failure?.status,
+        error: failure?.name,
+      }
+      this.logger(`${url} attempt ${attempt} failed: ${failure?.message}`)
+      this.emit('onRelayError', failedEvent)
+
+      if (!retryable || attempt >= policy.maxAttempts) {
+        throw failure
+      }
+
+      const delay = getRetryDelay(policy, attempt)
+      this.emit('onRetry', { ...failedEvent, delay })
+      await waitFor(delay, signal)
+    }
+  }
+
+  private emit<K extends keyof RelayerHooks>(
+    hook: K,
+    event: HookEvent<RelayerHooks, K>
+  ) {
+    callHook(this.hooks, hook, event, this.logger)
+  }
+}
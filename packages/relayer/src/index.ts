@@ -1,3 +1,11 @@
+export * from './aat'
 export * from './abstract-relayer'
+export * from './challenge-builder'
+export * from './consensus'
+export * from './gateway-relayer'
+export * from './node-selection'
+export * from './relay-budget'
+export * from './relay-payload'
 export * from './relayer'
+export * from './session-manager'
 export * from './errors'
@@ -0,0 +1,215 @@
+import { Node, Session } from '@pokt-foundation/pocketjs-types'
+
+export interface NodeStats {
+  publicKey: string
+  // Average latency of the relays served successfully by the node, in milliseconds.
+  latency?: number
+  relays: number
+  failures: number
+  successRate: number
+}
+
+export interface NodeSelectionStrategy {
+  /**
+   * Picks the node to send a relay to.
+   * @param {Session} session - The session the relay belongs to.
+   * @param {Node[]} nodes - The candidate nodes, a non-empty subset of the session's nodes.
+   * @param {Record<string, NodeStats>} stats - Stats of the session's nodes that served relays so far, by public key.
+   * @returns {Node} - The node to send the relay to.
+   * */
+  selectNode({
+    session,
+    nodes,
+    stats,
+  }: {
+    session: Session
+    nodes: Node[]
+    stats: Record<string, NodeStats>
+  }): Node
+}
+
+function randomIndex(length: number): number {
+  return Math.floor(Math.random() * length)
+}
+
+/**
+ * Picks any node of the session, with the same odds for each.
+ * */
+export class RandomNodeSelection implements NodeSelectionStrategy {
+  selectNode({ nodes }: { nodes: Node[] }): Node {
+    return nodes[randomIndex(nodes.length)]
+  }
+}
+
+/**
+ * Goes through the nodes of each session in turn.
+ * */
+export class RoundRobinNodeSelection implements NodeSelectionStrategy {
+  private cursors: Record<string, number> = {}
+
+  selectNode({ session, nodes }: { session: Session; nodes: Node[] }): Node {
+    const key = NodeStatsTracker.getSessionKey(session)
+    const cursor = this.cursors[key] ?? 0
+
+    // Walk the full session so skipping a node (e.g one already tried) doesn't
+    // shift the rotation of the rest.
+    for (let offset = 0; offset < session.nodes.length; offset++) {
+      const candidate = session.nodes[(cursor + offset) % session.nodes.length]
+      const node = nodes.find(
+        ({ publicKey }) => publicKey === candidate.publicKey
+      )
+      if (node) {
+        this.cursors[key] = cursor + offset + 1
+        return node
+      }
+    }
+
+    return nodes[0]
+  }
+}
+
+/**
+ * Picks the node with the lowest average latency, weighted by its success rate so
+ * that nodes failing fast don't come out on top. Nodes that haven't been sent a
+ * relay in the session yet are tried first, so every node gets measured.
+ * */
+export class LowestLatencyNodeSelection implements NodeSelectionStrategy {
+  selectNode({
+    nodes,
+    stats,
+  }: {
+    nodes: Node[]
+    stats: Record<string, NodeStats>
+  }): Node {
+    const unmeasured = nodes.filter(({ publicKey }) => !stats[publicKey])
+    if (unmeasured.length) {
+      return unmeasured[randomIndex(unmeasured.length)]
+    }
+
+    // Nodes that never succeeded rank last.
+    const score = ({ publicKey }: Node) => {
+      const { latency, successRate } = stats[publicKey]
+      return latency === undefined || !successRate
+        ? Infinity
+        : latency / successRate
+    }
+
+    return nodes.reduce((fastest, node) =>
+      score(node) < score(fastest) ? node : fastest
+    )
+  }
+}
+
+/**
+ * Picks a node at random, with odds proportional to its success rate in the session.
+ * Nodes without stats are weighted as having served half their relays, so they
+ * still get picked and the weight of nodes that failed once doesn't drop to zero.
+ * */
+export class SuccessRateNodeSelection implements NodeSelectionStrategy {
+  selectNode({
+    nodes,
+    stats,
+  }: {
+    nodes: Node[]
+    stats: Record<string, NodeStats>
+  }): Node {
+    const weights = nodes.map(({ publicKey }) => {
+      const { relays = 0, failures = 0 } = stats[publicKey] ?? {}
+      return (relays - failures + 1) / (relays + 2)
+    })
+    const total = weights.reduce((acc, weight) => acc + weight, 0)
+
+    let target = Math.random() * total
+    for (let idx = 0; idx < nodes.length; idx++) {
+      target -= weights[idx]
+      if (target < 0) {
+        return nodes[idx]
+      }
+    }
+
+    return nodes[nodes.length - 1]
+  }
+}
+
+/**
+ * Keeps the latency and error stats of the nodes that served relays, separately
+ * for each session, since a node's performance in a past session says little
+ * about the next one. Only the most recent sessions are kept.
+ * */
+export class NodeStatsTracker {
+  private sessions: Record<string, Record<string, NodeStats>> = {}
+  private sessionKeys: string[] = []
+  private maxSessions: number
+
+  /**
+   * @param {number} maxSessions - How many sessions to keep stats for. Defaults to 100.
+   * */
+  constructor({ maxSessions = 100 }: { maxSessions?: number } = {}) {
+    this.maxSessions = maxSessions
+  }
+
+  recordSuccess(session: Session, node: Node, latency: number) {
+    this.record(session, node, latency, false)
+  }
+
+  recordFailure(session: Session, node: Node, latency: number) {
+    this.record(session, node, latency, true)
+  }
+
+  /**
+   * Returns the stats of the nodes of a session that served relays so far.
+   * @param {Session} session - The session to get the stats of.
+   * @returns {Record<string, NodeStats>} - The stats of each node, by public key.
+   * */
+  getStats(session: Session): Record<string, NodeStats> {
+    const stats = this.sessions[NodeStatsTracker.getSessionKey(session)] ?? {}
+
+    return Object.keys(stats).reduce(
+      (acc, publicKey) => ({ ...acc, [publicKey]: { ...stats[publicKey] } }),
+      {}
+    )
+  }
+
+  private record(
+    session: Session,
+    node: Node,
+    latency: number,
+    failed: boolean
+  ) {
+    const key = NodeStatsTracker.getSessionKey(session)
+
+    if (!this.sessions[key]) {
+      this.sessions[key] = {}
+      this.sessionKeys.push(key)
+      if (this.sessionKeys.length > this.maxSessions) {
+        delete this.sessions[this.sessionKeys.shift() as string]
+      }
+    }
+
+    const stats = this.sessions[key][node.publicKey] ?? {
+      publicKey: node.publicKey,
+      relays: 0,
+      failures: 0,
+      successRate: 0,
+    }
+    // Failures can be fast, e.g refused connections, so only successes count
+    // towards the latency.
+    if (!failed) {
+      const successes = stats.relays - stats.failures
+      stats.latency =
+        stats.latency === undefined
+          ? latency
+          : (stats.latency * successes + latency) / (successes + 1)
+    }
+    stats.relays++
+    stats.failures += failed ? 1 : 0
+    stats.successRate = (stats.relays - stats.failures) / stats.relays
+
+    this.sessions[key][node.publicKey] = stats
+  }
+
+  static getSessionKey(session: Session): string {
+    const { applicationPubKey, chain, sessionBlockHeight } = session.header
+    return `${applicationPubKey}-${chain}-${sessionBlockHeight}`
+  }
+}
@@ -0,0 +1,224 @@
+import { sha256 } from 'js-sha256'
+import { getParam } from '@pokt-foundation/pocketjs-abstract-provider'
+import { JsonRpcProvider } from '@pokt-foundation/pocketjs-provider'
+import { Node, Session } from '@pokt-foundation/pocketjs-types'
+import { MissingNetworkParamError } from './errors'
+import { NodeStatsTracker } from './node-selection'
+
+const SESSION_NODE_COUNT_PARAM = 'pocketcore/SessionNodeCount'
+
+export interface NodeRelayBudget {
+  publicKey: string
+  allowance: number
+  sent: number
+  remaining: number
+}
+
+/**
+ * A RelayBudgetTracker counts the relays sent to each servicer of a session, and
+ * knows how many each of them will serve before answering with an OverServiceError:
+ * the app's maxRelays, split evenly across its chains and the nodes of a session.
+ * */
+export class RelayBudgetTracker {
+  readonly provider: JsonRpcProvider
+  private sessionNodeCount?: number
+  private maxSessions: number
+  private allowances: Record<string, number> = {}
+  private pendingAllowances: Record<string, Promise<number>> = {}
+  private sent: Record<string, Record<string, number>> = {}
+  private sessionKeys: string[] = []
+
+  /**
+   * @param {JsonRpcProvider} provider - The provider used to query the app and the network params.
+   * @param {number} sessionNodeCount - Number of nodes in a session. Fetched from the chain's params when not provided.
+   * @param {number} maxSessions - How many sessions to keep track of. Defaults to 100.
+   * */
+  constructor({
+    provider,
+    sessionNodeCount,
+    maxSessions = 100,
+  }: {
+    provider: JsonRpcProvider
+    sessionNodeCount?: number
+    maxSessions?: number
+  }) {
+    this.provider = provider
+    this.sessionNodeCount = sessionNodeCount
+    this.maxSessions = maxSessions
+  }
+
+  /**
+   * Fetches how many relays each servicer of a session will serve, if not known yet.
+   * Budgets of a session are only enforced once it's been loaded.
+   * @param {Session} session - The session to load.
+   * @returns {number} - The number of relays each servicer of the session will serve.
+   * */
+  async loadSession(session: Session): Promise<number> {
+    const key = NodeStatsTracker.getSessionKey(session)
+
+    if (this.allowances[key] !== undefined) {
+      return this.allowances[key]
+    }
+
+    if (!this.pendingAllowances[key]) {
+      this.pendingAllowances[key] = this.fetchAllowance(session)
+        .then((allowance) => {
+          this.track(key)
+          this.allowances[key] = allowance
+          return allowance
+        })
+        .finally(() => {
+          delete this.pendingAllowances[key]
+        })
+    }
+
+    return this.pendingAllowances[key]
+  }
+
+  getAllowance(session: Session): number | undefined {
+    return this.allowances[NodeStatsTracker.getSessionKey(session)]
+  }
+
+  /**
+   * Returns how many more relays a servicer will serve in a session.
+   * @param {Session} session - The session the servicer belongs to.
+   * @param {Node} node - The servicer.
+   * @returns {number} - The relays left, or Infinity if the session hasn't been loaded.
+   * */
+  getRemaining(session: Session, node: Node): number {
+    const allowance = this.getAllowance(session)
+    if (allowance === undefined) {
+      return Infinity
+    }
+
+    return Math.max(allowance - this.getSent(session, node), 0)
+  }
+
+  hasBudget(session: Session, node: Node): boolean {
+    return this.getRemaining(session, node) > 0
+  }
+
+  recordRelay(session: Session, node: Node) {
+    const key = NodeStatsTracker.getSessionKey(session)
+    this.track(key)
+    this.sent[key][node.publicKey] = this.getSent(session, node) + 1
+  }
+
+  /**
+   * Marks a servicer as out of budget, e.g after it answered with an OverServiceError,
+   * since relays sent by other clients of the same app count towards the same budget.
+   * @param {Session} session - The session the servicer belongs to.
+   * @param {Node} node - The servicer.
+   * */
+  markExhausted(session: Session, node: Node) {
+    const key = NodeStatsTracker.getSessionKey(session)
+    this.track(key)
+    this.sent[key][node.publicKey] = Math.max(
+      this.getSent(session, node),
+      this.allowances[key] ?? Infinity
+    )
+  }
+
+  /**
+   * Returns the budget of each servicer of a loaded session.
+   * @param {Session} session - The session to get the budgets of.
+   * @returns {NodeRelayBudget[]} - The budget of each servicer, or an empty list if the session hasn't been loaded.
+   * */
+  getBudgets(session: Session): NodeRelayBudget[] {
+    const allowance = this.getAllowance(session)
+    if (allowance === undefined) {
+      return []
+    }
+
+    return session.nodes.map((node) => ({
+      publicKey: node.publicKey,
+      allowance,
+      sent: this.getSent(session, node),
+      remaining: this.getRemaining(session, node),
+    }))
+  }
+
+  private getSent(session: Session, node: Node): number {
+    return (
+      this.sent[NodeStatsTracker.getSessionKey(session)]?.[node.publicKey] ?? 0
+    )
+  }
+
+  private track(key: string) {
+    if (this.sent[key]) {
+      return
+    }
+
+    this.sent[key] = {}
+    this.sessionKeys.push(key)
+    if (this.sessionKeys.length > this.maxSessions) {
+      const evicted = this.sessionKeys.shift() as string
+      delete this.sent[evicted]
+      delete this.allowances[evicted]
+    }
+  }
+
+  private async fetchAllowance(session: Session): Promise<number> {
+    const { applicationPubKey } = session.header
+    const [app, sessionNodeCount] = await Promise.all([
+      this.provider.getApp({
+        address: RelayBudgetTracker.getAddressFromPublicKey(applicationPubKey),
+      }),
+      this.getSessionNodeCount(),
+    ])
+
+    return RelayBudgetTracker.getMaxRelaysPerNode({
+      maxRelays: app.maxRelays,
+      chainCount: app.chains.length,
+      sessionNodeCount,
+    })
+  }
+
+  private async getSessionNodeCount(): Promise<number> {
+    if (this.sessionNodeCount === undefined) {
+      const params = await this.provider.getAllParams(0, {})
+      const sessionNodeCount = Number(
+        getParam(params, SESSION_NODE_COUNT_PARAM)
+      )
+
+      if (!sessionNodeCount) {
+        throw new MissingNetworkParamError(
+          `Could not find ${SESSION_NODE_COUNT_PARAM} in the network params`
+        )
+      }
+      this.sessionNodeCount = sessionNodeCount
+    }
+
+    return this.sessionNodeCount
+  }
+
+  /**
+   * Computes how many relays each servicer of a session serves for an app, as
+   * pocket-core does, rounding down so the budget is never overshot.
+   * @param {string | number} maxRelays - The app's maxRelays.
+   * @param {number} chainCount - The number of chains the app is staked for.
+   * @param {number} sessionNodeCount - The number of nodes in a session.
+   * @returns {number} - The number of relays per servicer and session.
+   * */
+  static getMaxRelaysPerNode({
+    maxRelays,
+    chainCount,
+    sessionNodeCount,
+  }: {
+    maxRelays: string | number
+    chainCount: number
+    sessionNodeCount: number
+  }): number {
+    return Math.floor(
+      Number(maxRelays) / Math.max(chainCount, 1) / sessionNodeCount
+    )
+  }
+
+  static getAddressFromPublicKey(publicKey: string): string {
+    const bytes = (publicKey.match(/.{2}/g) ?? []).map((byte) =>
+      parseInt(byte, 16)
+    )
+
+    return sha256(bytes).slice(0, 40)
+  }
+}
@@ -0,0 +1,88 @@
+import { Buffer } from 'buffer'
+import {
+  RelayHeaders,
+  RelayQuery,
+  RelayQueryValue,
+} from '@pokt-foundation/pocketjs-types'
+import { InvalidRelayDataError } from './errors'
+
+/**
+ * Encodes query parameters, repeating the key of those with several values.
+ * Parameters that are null or undefined are left out.
+ * @param {RelayQuery} query - The query parameters.
+ * @returns {string} - The encoded query, without the leading "?".
+ * */
+export function encodeQuery(query: RelayQuery): string {
+  return Object.keys(query)
+    .reduce<string[]>((acc, key) => {
+      const values = ([] as RelayQueryValue[]).concat(query[key])
+      return acc.concat(
+        values
+          .filter((value) => value !== null && value !== undefined)
+          .map(
+            (value) =>
+              `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+          )
+      )
+    }, [])
+    .join('&')
+}
+
+/**
+ * Appends query parameters to a relay path, which may already hold some.
+ * @param {string} path - The path to query e.g "/cosmos/bank/v1beta1/balances".
+ * @param {RelayQuery} query - The query parameters, if any.
+ * @returns {string} - The path, with the query.
+ * */
+export function buildRelayPath(path = '', query?: RelayQuery): string {
+  const encodedQuery = query ? encodeQuery(query) : ''
+  if (!encodedQuery) {
+    return path
+  }
+
+  return `${path}${path.includes('?') ? '&' : '?'}${encodedQuery}`
+}
+
+/**
+ * Turns the data of a relay into the string servicers expect. Servicers carry
+ * the data as a string and send it to the chain as UTF-8, so binary data must
+ * be valid UTF-8 to reach the chain untouched.
+ * @param {string | Uint8Array} data - The data to relay.
+ * @returns {string} - The data, as a string.
+ * @throws {InvalidRelayDataError} - If binary data is not valid UTF-8.
+ * */
+export function toRelayData(data: string | Uint8Array): string {
+  if (typeof data === 'string') {
+    return data
+  }
+
+  const bytes = Buffer.from(data)
+  const decoded = bytes.toString('utf8')
+  if (!Buffer.from(decoded, 'utf8').equals(bytes)) {
+    throw new InvalidRelayDataError(
+      'Binary relay data must be valid UTF-8 to be sent to a servicer'
+    )
+  }
+
+  return decoded
+}
+
+/**
+ * Merges sets of headers, later ones taking precedence. Header names are
+ * compared case-insensitively, but passed on as they were given.
+ * @param {RelayHeaders[]} headerSets - The headers to merge.
+ * @returns {RelayHeaders} - The merged headers.
+ * */
+export function mergeHeaders(
+  ...headerSets: (RelayHeaders | null | undefined)[]
+): RelayHeaders {
+  return headerSets.reduce<RelayHeaders>((merged, headers) => {
+    Object.keys(headers ?? {}).forEach((name) => {
+      Object.keys(merged)
+        .filter((existing) => existing.toLowerCase() === name.toLowerCase())
+        .forEach((existing) => delete merged[existing])
+      merged[name] = (headers as RelayHeaders)[name]
+    })
+    return merged
+  }, {})
+}
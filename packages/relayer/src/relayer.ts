@@ -1,34 +1,170 @@
 import crypto from 'isomorphic-webcrypto'
 import debug from 'debug'
 import sha3 from 'js-sha3'
+import {
+  callHook,
+  HookEvent,
+  InvalidArgumentError,
+  throwIfAborted,
+  V1RpcRoutes,
+} from '@pokt-foundation/pocketjs-abstract-provider'
 import { JsonRpcProvider } from '@pokt-foundation/pocketjs-provider'
 import { AbstractSigner, KeyManager } from '@pokt-foundation/pocketjs-signer'
 import {
+  ChallengeResponse,
   HTTPMethod,
   Node,
   PocketAAT,
+  RelayAttempt,
+  RelayerHooks,
   RelayHeaders,
+  RelayOptions,
+  RelayParams,
   RelayPayload,
+  RelayQuery,
+  RequestEvent,
   Session,
+  SessionRelayResult,
 } from '@pokt-foundation/pocketjs-types'
+import { hashAAT } from './aat'
 import { AbstractRelayer } from './abstract-relayer'
+import { ChallengeableRelay, ChallengeBuilder } from './challenge-builder'
+import {
+  ConsensusRelay,
+  ConsensusResult,
+  exactMatch,
+  resolveConsensus,
+  ResponseComparator,
+} from './consensus'
+import { SessionManager, SessionOptions } from './session-manager'
+import { RelayBudgetTracker } from './relay-budget'
 import {
+  NodeSelectionStrategy,
+  NodeStats,
+  NodeStatsTracker,
+  RandomNodeSelection,
+} from './node-selection'
+import { buildRelayPath, toRelayData } from './relay-payload'
+import {
+  ConsensusNotReachedError,
   EmptyKeyManagerError,
+  InvalidRelaySignatureError,
+  MissingAATError,
   NoServiceNodeError,
+  RelayBudgetExhaustedError,
   ServiceNodeNotInSessionError,
   validateRelayResponse,
 } from './errors'
 
+// Failures that are down to the servicer, rather than to the relay itself.
+const NODE_FAILURE_ERRORS = [
+  'TimeoutError',
+  'RelayFailureError',
+  'OverServiceError',
+  'HTTPExecutionError',
+  'InvalidRelaySignatureError',
+]
+
+// Servicers hash their responses as serialized by Go's encoding/json, which
+// escapes HTML characters and line separators that JSON.stringify leaves as is.
+function goJSONStringify(value: any): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+    .replace(/\\([\\bf])/g, (escape, char) =>
+      char === 'b' ? '\\u0008' : char === 'f' ? '\\u000c' : escape
+    )
+}
+
+// Failures meaning the session the relay was sent in is not the servicer's.
+const SESSION_RENEWAL_ERRORS = ['OutOfSyncRequestError', 'InvalidSessionError']
+
+export interface BatchRelayPayload {
+  data: string | Uint8Array
+  headers?: RelayHeaders | null
+  method?: HTTPMethod | ''
+  path?: string
+  query?: RelayQuery
+  node?: Node
+}
+
+export type BatchRelayResult =
+  | { status: 'fulfilled'; relay: SessionRelayResult }
+  | { status: 'rejected'; error: any }
+
 export class Relayer implements AbstractRelayer {
   readonly keyManager: KeyManager
   readonly provider: JsonRpcProvider
   readonly dispatchers: string[]
+  readonly sessionManager: SessionManager
+  readonly nodeSelection: NodeSelectionStrategy
+  readonly nodeStats: NodeStatsTracker
+  readonly relayBudget?: RelayBudgetTracker
+  readonly hooks: RelayerHooks
+  readonly pocketAAT?: PocketAAT
   private secureEnsured = false
+  private logger = debug('Relayer')
 
-  constructor({ keyManager, provider, dispatchers }) {
+  constructor({
+    keyManager,
+    provider,
+    dispatchers,
+    sessionManager,
+    nodeSelection,
+    nodeStats,
+    relayBudget,
+    hooks = {},
+    pocketAAT,
+  }: {
+    keyManager: KeyManager
+    provider: JsonRpcProvider
+    dispatchers?: string[]
+    sessionManager?: SessionManager
+    nodeSelection?: NodeSelectionStrategy
+    nodeStats?: NodeStatsTracker
+    relayBudget?: RelayBudgetTracker
+    hooks?: RelayerHooks
+    pocketAAT?: PocketAAT
+  }) {
     this.keyManager = keyManager
     this.provider = provider
-    this.dispatchers = dispatchers
+    this.dispatchers = dispatchers ?? []
+    this.sessionManager = sessionManager ?? new SessionManager({ provider })
+    this.nodeSelection = nodeSelection ?? new RandomNodeSelection()
+    this.nodeStats = nodeStats ?? new NodeStatsTracker()
+    this.relayBudget = relayBudget
+    this.hooks = hooks
+    this.pocketAAT = pocketAAT
+  }
+
+  /**
+   * Gets the current session, reusing the cached one until the network rolls over to a new session.
+   * @param {string} applicationPubKey - The application's public key.
+   * @param {string} chain - The chain for the session.
+   * @param {object} options - The options available to tweak the dispatch, if one is needed.
+   * @param {boolean} options.rejectSelfSignedCertificates - Option to reject self signed certificates or not.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the provider's retry policy for this call.
+   * @param {AbortSignal} options.signal - Stops waiting on the session.
+   * @returns {Session} - The current session.
+   * */
+  async getSession({
+    applicationPubKey,
+    chain,
+    options = {},
+  }: {
+    applicationPubKey?: string
+    chain: string
+    options?: SessionOptions
+  }): Promise<Session> {
+    return this.sessionManager.getSession({
+      applicationPubKey: applicationPubKey ?? this.keyManager.getPublicKey(),
+      chain,
+      options,
+    })
   }
 
   /**
@@ -40,6 +176,8 @@ export class Relayer implements AbstractRelayer {
    * @param {number} options.retryAttempts - The number of retries to perform if the first call fails.
    * @param {boolean} options.rejectSelfSignedCertificates - Option to reject self signed certificates or not.
    * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the provider's retry policy for this call.
+   * @param {AbortSignal} options.signal - Aborts the dispatch.
    * @returns {DispatchResponse} - The dispatch response from the dispatcher node, as a session.
    * */
   async getNewSession({
@@ -54,11 +192,7 @@ export class Relayer implements AbstractRelayer {
     applicationPubKey?: string
     chain: string
     sessionBlockHeight?: number
-    options?: {
-      retryAttempts?: number
-      rejectSelfSignedCertificates?: boolean
-      timeout?: number
-    }
+    options?: SessionOptions & { retryAttempts?: number }
   }): Promise<Session> {
     const dispatchResponse = await this.provider.dispatch(
       {
@@ -85,27 +219,24 @@ export class Relayer implements AbstractRelayer {
     path = '',
     pocketAAT,
     provider,
+    query,
     session,
     options = {
-      retryAttempts: 0,
       rejectSelfSignedCertificates: false,
     },
   }: {
     blockchain: string
-    data: string
+    data: string | Uint8Array
     headers?: RelayHeaders | null
     keyManager: KeyManager | AbstractSigner
     method: HTTPMethod | ''
     node: Node
     path: string
+    query?: RelayQuery
     pocketAAT: PocketAAT
     provider: JsonRpcProvider
     session: Session
-    options?: {
-      retryAttempts?: number
-      rejectSelfSignedCertificates?: boolean
-      timeout?: number
-    }
+    options?: Omit<RelayOptions, 'maxNodeAttempts'>
   }) {
     const logger = debug('Relayer')
     const startTime = process.hrtime()
@@ -132,9 +263,9 @@ export class Relayer implements AbstractRelayer {
     const servicerPubKey = serviceNode.publicKey
 
     const relayPayload = {
-      data,
+      data: toRelayData(data),
       method,
-      path,
+      path: buildRelayPath(path, query),
       headers,
     } as RelayPayload
 
@@ -185,16 +316,34 @@ export class Relayer implements AbstractRelayer {
     const totalTime = process.hrtime(startTime)
     logger(`Relay data structure generated, TOOK ${totalTime}`)
 
+    const { verifyRelaySignature = false, ...relayOptions } = options
     const relay = await provider.relay(
       relayRequest,
       serviceNode.serviceUrl.toString(),
-      options
+      relayOptions
     )
 
     const relayResponse = await validateRelayResponse(relay)
 
+    if (verifyRelaySignature) {
+      const isSignatureValid = await this.verifyRelaySignature({
+        response: relayResponse,
+        signature: (relay as any).signature,
+        proofHash: proofBytes,
+        servicerPubKey,
+      })
+
+      if (!isSignatureValid) {
+        logger('Found error: relay response signature mismatch')
+        throw new InvalidRelaySignatureError(
+          `The relay response is not signed by servicer ${servicerPubKey}`
+        )
+      }
+    }
+
     return {
       response: relayResponse,
+      signature: (relay as any).signature as string,
       relayProof: {
         entropy: relayProof.entropy,
         sessionBlockheight: relayProof.session_block_height,
@@ -214,19 +363,26 @@ export class Relayer implements AbstractRelayer {
   }
 
   /**
-   * Sends a relay to the network.
+   * Sends a relay to the network. Should the servicer report the session as out of sync
+   * or invalid, a new session is dispatched and the relay is sent once more in it.
    * @param {string} blockchain - The chain for the session.
-   * @param {string} data - The data to send, stringified.
+   * @param {string | Uint8Array} data - The data to send, stringified. Binary data must be valid UTF-8.
    * @param {object} headers - The headers to include in the call, if any.
-   * @param {Node} node - The node to send the relay to. The node must belong to the current session.
+   * @param {string} method - The HTTP method of the call, if any.
+   * @param {Node} node - The node to send the relay to. The node must belong to the current session. Picked by the relayer's node selection strategy if not provided.
    * @param {string} path - The path to query in the relay e.g "/v1/query/node". Useful for chains like AVAX.
-   * @param {AAT} pocketAAT - The pocket AAT used to authenticate the relay.
-   * @param {Session} session - The current session the app is assigned to.
+   * @param {RelayQuery} query - Query parameters, encoded and appended to the path.
+   * @param {AAT} pocketAAT - The pocket AAT used to authenticate the relay. Defaults to the one the relayer was constructed with.
+   * @param {Session} session - The current session the app is assigned to. Defaults to the session cached by the session manager for the AAT's application and the chain.
    * @param {object} options - The options available to tweak the request itself.
    * @param {number} options.retryAttempts - The number of retries to perform if the first call fails.
    * @param {boolean} options.rejectSelfSignedCertificates - Option to reject self signed certificates or not.
    * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
-   * @returns {RelayResponse} - The relay response.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the provider's retry policy for this call.
+   * @param {boolean} options.verifyRelaySignature - Checks that the response is signed by the servicer, failing with an InvalidRelaySignatureError otherwise.
+   * @param {number} options.maxNodeAttempts - How many servicers in the session to try. Should a servicer time out or fail to serve the relay, the relay is sent again to another one. Defaults to 1.
+   * @param {AbortSignal} options.signal - Aborts the relay, failing it with a RequestAbortedError. No dispatch, retry or servicer is moved on to once aborted.
+   * @returns {SessionRelayResult} - The relay response, along with the session it was sent in and the servicers that were tried.
    * */
   async relay({
     blockchain,
@@ -235,32 +391,442 @@ export class Relayer implements AbstractRelayer {
     method = '',
     node,
     path = '',
+    query,
+    pocketAAT = this.pocketAAT,
+    session,
+    options = {
+      rejectSelfSignedCertificates: false,
+    },
+  }: RelayParams): Promise<SessionRelayResult> {
+    if (!this.keyManager) {
+      throw new Error('You need a signer to send a relay')
+    }
+    if (!pocketAAT) {
+      throw new MissingAATError(
+        'You need an AAT to send a relay, either passed along or given to the relayer'
+      )
+    }
+    throwIfAborted(options.signal)
+    await this.ensureSecure()
+
+    if (!session) {
+      const { rejectSelfSignedCertificates, timeout, retryPolicy, signal } =
+        options
+      session = await this.getSession({
+        applicationPubKey: pocketAAT.applicationPublicKey,
+        chain: blockchain,
+        options: { rejectSelfSignedCertificates, timeout, retryPolicy, signal },
+      })
+    }
+
+    const relayParams = {
+      blockchain,
+      data: toRelayData(data),
+      headers,
+      method,
+      path,
+      query,
+      pocketAAT,
+      options,
+    }
+
+    try {
+      return await this.relayInSession({ ...relayParams, session, node })
+    } catch (err: any) {
+      if (!SESSION_RENEWAL_ERRORS.includes(err?.name)) {
+        throw err
+      }
+
+      const renewedSession = await this.renewSession(session, err, options)
+      const previousAttempts: RelayAttempt[] = err.attempts ?? []
+
+      try {
+        const relay = await this.relayInSession({
+          ...relayParams,
+          session: renewedSession,
+          // The node asked for may not be part of the new session.
+          node:
+            node && Relayer.isNodeInSession(renewedSession, node)
+              ? node
+              : undefined,
+        })
+
+        return { ...relay, attempts: previousAttempts.concat(relay.attempts) }
+      } catch (retryErr: any) {
+        throw Object.assign(retryErr, {
+          attempts: previousAttempts.concat(retryErr?.attempts ?? []),
+        })
+      }
+    }
+  }
+
+  private async relayInSession({
+    node,
+    session,
+    options,
+    ...relayParams
+  }: Omit<
+    Parameters<typeof Relayer.relay>[0],
+    'keyManager' | 'provider' | 'node' | 'options'
+  > & {
+    node?: Node
+    options: RelayOptions
+  }): Promise<SessionRelayResult> {
+    await this.relayBudget?.loadSession(session)
+
+    const { maxNodeAttempts = 1, ...relayOptions } = options
+    const attempts: RelayAttempt[] = []
+    let serviceNode = node ?? this.selectNode(session, session.nodes)
+
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now()
+
+      try {
+        const relay = await this.relayToNode(
+          serviceNode,
+          {
+            ...relayParams,
+            session,
+            options: relayOptions,
+          },
+          attempt
+        )
+        attempts.push({ serviceNode })
+
+        return { ...relay, session, attempts }
+      } catch (err: any) {
+        attempts.push({ serviceNode, error: err?.name })
+
+        const untriedNodes = session.nodes.filter(
+          (n) =>
+            !attempts.some(
+              (tried) => tried.serviceNode?.publicKey === n.publicKey
+            ) && this.hasRelayBudget(session, n)
+        )
+        if (
+          attempt >= maxNodeAttempts ||
+          !NODE_FAILURE_ERRORS.includes(err?.name) ||
+          !untriedNodes.length ||
+          relayOptions.signal?.aborted
+        ) {
+          throw Object.assign(err, { attempts })
+        }
+
+        this.emit('onRetry', {
+          ...Relayer.getRequestEvent(serviceNode, attempt),
+          latency: Date.now() - startTime,
+          error: err?.name,
+          delay: 0,
+        })
+        serviceNode = this.selectNode(session, untriedNodes)
+      }
+    }
+  }
+
+  /**
+   * Sends many relays at once, keeping at most `concurrency` of them in flight.
+   * Each relay goes through the same path as relay(), so servicers are picked by
+   * the node selection strategy and retried as per options.maxNodeAttempts.
+   * A failed relay doesn't fail the batch: results come back in the order of
+   * the payloads, each either fulfilled with its relay or rejected with its error.
+   * @param {string} blockchain - The chain for the session.
+   * @param {BatchRelayPayload[]} payloads - The payloads to relay, each with its data and optionally headers, method, path and node.
+   * @param {AAT} pocketAAT - The pocket AAT used to authenticate the relays.
+   * @param {Session} session - The current session the app is assigned to.
+   * @param {number} concurrency - How many relays to send at the same time. Defaults to 10.
+   * @param {object} options - The options available to tweak each relay, as in relay().
+   * @returns {BatchRelayResult[]} - The outcome of each payload, in order.
+   * @throws {InvalidArgumentError} - If concurrency is not a positive integer.
+   * */
+  async relayBatch({
+    blockchain,
+    payloads,
     pocketAAT,
     session,
+    concurrency = 10,
     options = {
-      retryAttempts: 0,
       rejectSelfSignedCertificates: false,
     },
   }: {
-    data: string
     blockchain: string
+    payloads: BatchRelayPayload[]
     pocketAAT: PocketAAT
-    headers?: RelayHeaders | null
-    method: HTTPMethod | ''
     session: Session
-    node: Node
-    path: string
-    options?: {
-      retryAttempts?: number
-      rejectSelfSignedCertificates?: boolean
-      timeout?: number
+    concurrency?: number
+    options?: RelayOptions
+  }): Promise<BatchRelayResult[]> {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidArgumentError(
+        `concurrency must be a positive integer, got ${concurrency}`
+      )
     }
-  }) {
+
+    const results: BatchRelayResult[] = []
+    let nextPayload = 0
+
+    const worker = async () => {
+      while (nextPayload < payloads.length) {
+        const idx = nextPayload++
+        const {
+          data,
+          headers = null,
+          method = '',
+          path = '',
+          query,
+          node,
+        } = payloads[idx]
+
+        try {
+          const relay = await this.relay({
+            blockchain,
+            data,
+            headers,
+            method,
+            node,
+            path,
+            query,
+            pocketAAT,
+            session,
+            options,
+          })
+          results[idx] = { status: 'fulfilled', relay }
+        } catch (error) {
+          results[idx] = { status: 'rejected', error }
+        }
+      }
+    }
+
+    const workerCount = Math.min(concurrency, payloads.length)
+    const workers: Promise<void>[] = []
+    for (let i = 0; i < workerCount; i++) {
+      workers.push(worker())
+    }
+    await Promise.all(workers)
+
+    return results
+  }
+
+  /**
+   * Sends the same relay to several servicers of the session in parallel and returns
+   * the response most of them agree on, along with every relay received, so that
+   * dissenting servicers can be challenged.
+   * @param {string} blockchain - The chain for the session.
+   * @param {string} data - The data to send, stringified.
+   * @param {object} headers - The headers to include in the call, if any.
+   * @param {Node[]} nodes - The nodes to send the relay to. Picked by the relayer's node selection strategy if not provided.
+   * @param {number} nodeCount - How many nodes to pick, when nodes are not provided. Defaults to 3.
+   * @param {string} path - The path to query in the relay e.g "/v1/query/node". Useful for chains like AVAX.
+   * @param {RelayQuery} query - Query parameters, encoded and appended to the path.
+   * @param {AAT} pocketAAT - The pocket AAT used to authenticate the relay.
+   * @param {Session} session - The current session the app is assigned to.
+   * @param {ResponseComparator} compare - How to compare responses. Defaults to an exact match; jsonRpcResultMatch only compares JSON-RPC results.
+   * @param {number} quorum - How many servicers must agree on a response. Defaults to more than half of the nodes given, or of nodeCount.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {boolean} options.rejectSelfSignedCertificates - Option to reject self signed certificates or not.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @param {Partial<RetryPolicy>} options.retryPolicy - Overrides the provider's retry policy for this call.
+   * @param {boolean} options.verifyRelaySignature - Checks that each response is signed by its servicer. Servicers whose signature doesn't match count as failures.
+   * @param {AbortSignal} options.signal - Aborts the relays still in flight.
+   * @returns {ConsensusResult} - The majority response, the relays agreeing and disagreeing with it, and the servicers that failed to respond.
+   * */
+  async consensusRelay({
+    blockchain,
+    data,
+    headers = null,
+    method = '',
+    nodes,
+    nodeCount = 3,
+    path = '',
+    query,
+    pocketAAT,
+    session,
+    compare = exactMatch,
+    quorum,
+    options = {
+      rejectSelfSignedCertificates: false,
+    },
+  }: {
+    data: string | Uint8Array
+    blockchain: string
+    pocketAAT: PocketAAT
+    headers?: RelayHeaders | null
+    method?: HTTPMethod | ''
+    session: Session
+    nodes?: Node[]
+    nodeCount?: number
+    path?: string
+    query?: RelayQuery
+    compare?: ResponseComparator
+    quorum?: number
+    options?: Omit<RelayOptions, 'maxNodeAttempts'>
+  }): Promise<ConsensusResult> {
     if (!this.keyManager) {
       throw new Error('You need a signer to send a relay')
     }
-    const serviceNode = node ?? undefined
+    await this.ensureSecure()
+    await this.relayBudget?.loadSession(session)
+
+    const relayData = toRelayData(data)
+    const serviceNodes = nodes ?? this.selectNodes(session, nodeCount)
+    // Servicers running out of relays must not lower the bar for consensus.
+    const requiredAgreement =
+      quorum ?? Math.floor((nodes ? nodes.length : nodeCount) / 2) + 1
+    if (serviceNodes.length < requiredAgreement) {
+      throw Object.assign(
+        new ConsensusNotReachedError(
+          `Only ${serviceNodes.length} servicers can be relayed to, fewer than the ${requiredAgreement} that must agree`
+        ),
+        { relays: [], failures: [] }
+      )
+    }
+
+    const outcomes = await Promise.all(
+      serviceNodes.map((serviceNode) =>
+        this.relayToNode(serviceNode, {
+          blockchain,
+          data: relayData,
+          headers,
+          method,
+          path,
+          query,
+          pocketAAT,
+          session,
+          options,
+        }).then(
+          (relay) => ({ serviceNode, relay, error: undefined }),
+          (error) => ({ serviceNode, relay: undefined, error })
+        )
+      )
+    )
+
+    const relays: ConsensusRelay[] = outcomes
+      .filter(({ relay }) => relay)
+      .map(({ relay }) => relay as ConsensusRelay)
+    const failures = outcomes
+      .filter(({ relay }) => !relay)
+      .map(({ serviceNode, error }) => ({ serviceNode, error: error?.name }))
+    const consensus = resolveConsensus({
+      relays,
+      compare,
+      quorum: requiredAgreement,
+    })
+
+    if (!consensus) {
+      throw Object.assign(
+        new ConsensusNotReachedError(
+          `No response was agreed on by ${requiredAgreement} out of ${serviceNodes.length} servicers`
+        ),
+        { relays, failures }
+      )
+    }
+
+    return {
+      response: consensus.majorityRelays[0].response,
+      relays,
+      majorityRelays: consensus.majorityRelays,
+      minorityRelays: consensus.minorityRelays,
+      dissentingNodes: consensus.minorityRelays.map(
+        ({ serviceNode }) => serviceNode
+      ),
+      failures,
+    }
+  }
+
+  /**
+   * Returns the latency and error stats of the nodes of a session, as collected from the relays sent so far.
+   * @param {Session} session - The session to get the stats of.
+   * @returns {Record<string, NodeStats>} - The stats of each node that served a relay, by public key.
+   * */
+  getNodeStats(session: Session): Record<string, NodeStats> {
+    return this.nodeStats.getStats(session)
+  }
+
+  // Sends a relay to a single servicer, recording how it did in the node stats
+  // and counting it against the servicer's budget.
+  private async relayToNode(
+    serviceNode: Node,
+    relayParams: Omit<
+      Parameters<typeof Relayer.relay>[0],
+      'keyManager' | 'provider' | 'node'
+    >,
+    attempt = 1
+  ) {
+    const { session } = relayParams
+
+    if (!this.hasRelayBudget(session, serviceNode)) {
+      throw new RelayBudgetExhaustedError(
+        `Servicer ${serviceNode.publicKey} has no relays left for this session`
+      )
+    }
+    this.relayBudget?.recordRelay(session, serviceNode)
+
+    const event = Relayer.getRequestEvent(serviceNode, attempt)
+    this.emit('onRequest', event)
+    const startTime = Date.now()
+
+    try {
+      const relay = await Relayer.relay({
+        ...relayParams,
+        node: serviceNode,
+        keyManager: this.keyManager,
+        provider: this.provider,
+      })
+      const latency = Date.now() - startTime
+      this.nodeStats.recordSuccess(session, serviceNode, latency)
+      this.emit('onResponse', { ...event, latency })
+
+      return relay
+    } catch (err: any) {
+      const latency = Date.now() - startTime
+      if (NODE_FAILURE_ERRORS.includes(err?.name)) {
+        this.nodeStats.recordFailure(session, serviceNode, latency)
+      }
+      this.emit('onRelayError', { ...event, latency, error: err?.name })
+      if (err?.name === 'OverServiceError') {
+        this.relayBudget?.markExhausted(session, serviceNode)
+      }
+      throw err
+    }
+  }
+
+  private async renewSession(
+    session: Session,
+    error: any,
+    {
+      rejectSelfSignedCertificates,
+      timeout,
+      retryPolicy,
+      signal,
+    }: SessionOptions
+  ): Promise<Session> {
+    const { applicationPubKey, chain } = session.header
+    this.logger(
+      `${error.name} for session at ${session.header.sessionBlockHeight}, renewing it`
+    )
+
+    const renewedSession = await this.sessionManager.refresh({
+      applicationPubKey,
+      chain,
+      blockHeight: error.blockHeight,
+      options: { rejectSelfSignedCertificates, timeout, retryPolicy, signal },
+    })
+    this.emit('onSessionRenewed', {
+      previousSession: session,
+      session: renewedSession,
+      error,
+    })
 
+    return renewedSession
+  }
+
+  private emit<K extends keyof RelayerHooks>(
+    hook: K,
+    event: HookEvent<RelayerHooks, K>
+  ) {
+    callHook(this.hooks, hook, event, this.logger)
+  }
+
+  private async ensureSecure() {
     // React native only:
     // If this SDK is used in a mobile context,
     // the native crypto library needs to be used in a secure context to properly
@@ -271,25 +837,100 @@ export class Relayer implements AbstractRelayer {
       }
       this.secureEnsured = true
     }
+  }
 
-    return Relayer.relay({
-      blockchain,
-      data,
-      headers,
-      method,
-      node: serviceNode,
-      path,
-      pocketAAT,
+  private selectNodes(session: Session, count: number): Node[] {
+    const selected: Node[] = []
+    const nodesWithBudget = session.nodes.filter((node) =>
+      this.hasRelayBudget(session, node)
+    )
+
+    do {
+      selected.push(
+        this.selectNode(
+          session,
+          session.nodes.filter((node) => !selected.includes(node))
+        )
+      )
+    } while (selected.length < Math.min(count, nodesWithBudget.length))
+
+    return selected
+  }
+
+  // Picks a node among the ones given, leaving out those with no relays left.
+  private selectNode(session: Session, nodes: Node[]): Node {
+    if (!nodes.length) {
+      throw new NoServiceNodeError(`Couldn't find a service node to use.`)
+    }
+
+    const nodesWithBudget = nodes.filter((node) =>
+      this.hasRelayBudget(session, node)
+    )
+    if (!nodesWithBudget.length) {
+      throw new RelayBudgetExhaustedError(
+        'Every servicer of the session has run out of relays'
+      )
+    }
+
+    return this.nodeSelection.selectNode({
       session,
-      keyManager: this.keyManager,
-      provider: this.provider,
-      options,
+      nodes: nodesWithBudget,
+      stats: this.nodeStats.getStats(session),
+    })
+  }
+
+  private hasRelayBudget(session: Session, node: Node): boolean {
+    return this.relayBudget?.hasBudget(session, node) ?? true
+  }
+
+  /**
+   * Submits a challenge against a servicer whose relay response disagrees with the rest of the session.
+   * @param {ChallengeableRelay[]} majorityRelays - The relays whose responses are in agreement.
+   * @param {ChallengeableRelay} minorityRelay - The relay whose response disagrees with the majority.
+   * @param {string} reporterAddress - The address reporting the challenge. Defaults to the relayer's signer address.
+   * @param {object} options - The options available to tweak the request itself.
+   * @param {timeout} options.timeout - Timeout before the call fails. In milliseconds.
+   * @returns {ChallengeResponse} - The response of the node the challenge was submitted to.
+   * */
+  async challenge({
+    majorityRelays,
+    minorityRelay,
+    reporterAddress = this.keyManager.getAddress(),
+    options = {},
+  }: {
+    majorityRelays: ChallengeableRelay[]
+    minorityRelay: ChallengeableRelay
+    reporterAddress?: string
+    options?: {
+      timeout?: number
+    }
+  }): Promise<ChallengeResponse> {
+    const challengeRequest = ChallengeBuilder.build({
+      majorityRelays,
+      minorityRelay,
+      reporterAddress,
     })
+
+    return this.provider.challenge(challengeRequest, options)
+  }
+
+  /**
+   * Builds the event the hooks get for a relay sent to a servicer.
+   * @param {Node} serviceNode - The servicer the relay is sent to.
+   * @param {number} attempt - Which attempt at sending the relay this is, starting at 1.
+   * @returns {RequestEvent} - The event.
+   * */
+  static getRequestEvent(serviceNode: Node, attempt: number): RequestEvent {
+    return {
+      route: `${V1RpcRoutes.ClientRelay}`,
+      url: serviceNode.serviceUrl,
+      attempt,
+      node: serviceNode,
+    }
   }
 
   static getRandomSessionNode(session: Session): Node {
-    const nodesInSession = session.nodes.length
-    const rng = Math.floor(Math.random() * 100) % nodesInSession
+    const rng = Math.floor(Math.random() * session.nodes.length)
 
     return session.nodes[rng]
   }
@@ -330,15 +971,7 @@ export class Relayer implements AbstractRelayer {
   }
 
   static hashAAT(aat: PocketAAT): string {
-    const token = {
-      version: aat.version,
-      app_pub_key: aat.applicationPublicKey,
-      client_pub_key: aat.clientPublicKey,
-      signature: '',
-    }
-    const hash = sha3.sha3_256.create()
-    hash.update(JSON.stringify(token))
-    return hash.hex()
+    return hashAAT(aat)
   }
 
   static hashRequest(requestHash): string {
@@ -347,6 +980,57 @@ export class Relayer implements AbstractRelayer {
     return hash.hex()
   }
 
+  /**
+   * Hashes a relay response the way servicers do before signing it: the response
+   * alongside the hash of the relay proof it answers.
+   * @param {string} response - The relay response payload.
+   * @param {string} proofHash - The hash of the relay proof, as returned by generateProofBytes.
+   * @returns {string} - The hash, as a hex string.
+   * */
+  static hashRelayResponse({
+    response,
+    proofHash,
+  }: {
+    response: string
+    proofHash: string
+  }): string {
+    const hash = sha3.sha3_256.create()
+    hash.update(
+      goJSONStringify({ signature: '', payload: response, proof: proofHash })
+    )
+    return hash.hex()
+  }
+
+  /**
+   * Verifies the signature a servicer attached to its relay response.
+   * @param {string} response - The relay response payload.
+   * @param {string} signature - The servicer's signature, as a hex string.
+   * @param {string} proofHash - The hash of the relay proof sent along with the relay.
+   * @param {string} servicerPubKey - The public key of the servicer the relay was sent to.
+   * @returns {boolean} - Whether the response was signed by the servicer.
+   * */
+  static async verifyRelaySignature({
+    response,
+    signature,
+    proofHash,
+    servicerPubKey,
+  }: {
+    response: string
+    signature: string
+    proofHash: string
+    servicerPubKey: string
+  }): Promise<boolean> {
+    if (typeof response !== 'string' || typeof signature !== 'string') {
+      return false
+    }
+
+    return KeyManager.verifySignature({
+      payload: this.hashRelayResponse({ response, proofHash }),
+      signature,
+      publicKey: servicerPubKey,
+    })
+  }
+
   static getRandomIntInclusive(min = 0, max = Number.MAX_SAFE_INTEGER) {
     const randomBuffer = new Uint32Array(1)
 
@@ -0,0 +1,306 @@
+import debug from 'debug'
+import {
+  abortable,
+  getParam,
+} from '@pokt-foundation/pocketjs-abstract-provider'
+import { JsonRpcProvider } from '@pokt-foundation/pocketjs-provider'
+import { RetryPolicy, Session } from '@pokt-foundation/pocketjs-types'
+import { MissingNetworkParamError } from './errors'
+
+const BLOCKS_PER_SESSION_PARAM = 'pos/BlocksPerSession'
+
+interface CachedSession {
+  session: Session
+  // Height at which the next session starts.
+  expiresAt: number
+  lastRefreshedAt: number
+}
+
+export interface SessionOptions {
+  rejectSelfSignedCertificates?: boolean
+  timeout?: number
+  retryPolicy?: Partial<RetryPolicy>
+  // Stops waiting on the session. Dispatches shared with other callers carry on.
+  signal?: AbortSignal
+}
+
+/**
+ * A SessionManager caches the sessions obtained through dispatches, one per
+ * application and chain, and renews them when the network rolls over to a new session.
+ * */
+export class SessionManager {
+  readonly provider: JsonRpcProvider
+  private blocksPerSession?: number
+  private heightTtl: number
+  private refreshAheadBlocks: number
+  private sessions: Record<string, CachedSession> = {}
+  private pendingDispatches: Record<string, Promise<Session>> = {}
+  private height?: { value: number; fetchedAt: number }
+  private pendingHeight?: Promise<number>
+  private logger = debug('SessionManager')
+
+  /**
+   * @param {JsonRpcProvider} provider - The provider used to dispatch sessions and query the chain.
+   * @param {number} blocksPerSession - Length of a session in blocks. Fetched from the chain's params when not provided.
+   * @param {number} heightTtl - How long the latest known height is trusted before querying it again. In milliseconds.
+   * @param {number} refreshAheadBlocks - How many blocks before the end of a session it starts being refreshed in the background.
+   * */
+  constructor({
+    provider,
+    blocksPerSession,
+    heightTtl = 30000,
+    refreshAheadBlocks = 1,
+  }: {
+    provider: JsonRpcProvider
+    blocksPerSession?: number
+    heightTtl?: number
+    refreshAheadBlocks?: number
+  }) {
+    this.provider = provider
+    this.blocksPerSession = blocksPerSession
+    this.heightTtl = heightTtl
+    this.refreshAheadBlocks = refreshAheadBlocks
+  }
+
+  /**
+   * Gets the current session for an application and chain, dispatching a new one
+   * only if there's none cached or the cached one has expired.
+   * Concurrent calls for the same application and chain share a single dispatch,
+   * which keeps running should one of them abort.
+   * @param {string} applicationPubKey - The application's public key.
+   * @param {string} chain - The chain for the session.
+   * @param {SessionOptions} options - The options to dispatch with, if a dispatch is needed.
+   * @returns {Session} - The current session.
+   * */
+  async getSession({
+    applicationPubKey,
+    chain,
+    options = {},
+  }: {
+    applicationPubKey: string
+    chain: string
+    options?: SessionOptions
+  }): Promise<Session> {
+    const { signal, ...dispatchOptions } = options
+    const key = SessionManager.getSessionKey(applicationPubKey, chain)
+    const cached = this.sessions[key]
+
+    if (!cached) {
+      return abortable(
+        this.renew(applicationPubKey, chain, dispatchOptions),
+        signal
+      )
+    }
+
+    const height = await abortable(this.getHeight(), signal)
+
+    if (height >= cached.expiresAt) {
+      this.logger(`session for ${key} expired at ${cached.expiresAt}`)
+      return abortable(
+        this.renew(applicationPubKey, chain, dispatchOptions),
+        signal
+      )
+    }
+
+    // The session is about to roll over: keep serving it, but check in the
+    // background whether the next one is out yet.
+    if (
+      height >= cached.expiresAt - this.refreshAheadBlocks &&
+      Date.now() - cached.lastRefreshedAt >= this.heightTtl
+    ) {
+      cached.lastRefreshedAt = Date.now()
+      this.renew(applicationPubKey, chain, dispatchOptions).catch((err) =>
+        this.logger(`background renewal of ${key} failed: ${err.message}`)
+      )
+    }
+
+    return cached.session
+  }
+
+  /**
+   * Dispatches a new session right away, replacing the cached one, e.g after a servicer
+   * reported the cached session as invalid.
+   * @param {string} applicationPubKey - The application's public key.
+   * @param {string} chain - The chain for the session.
+   * @param {number} blockHeight - A height the new session must cover, e.g the servicer's current height. The latest session is dispatched if not provided.
+   * @param {SessionOptions} options - The options to dispatch with.
+   * @returns {Session} - The new session.
+   * */
+  async refresh({
+    applicationPubKey,
+    chain,
+    blockHeight,
+    options = {},
+  }: {
+    applicationPubKey: string
+    chain: string
+    blockHeight?: number
+    options?: SessionOptions
+  }): Promise<Session> {
+    const { signal, ...dispatchOptions } = options
+    const sessionBlockHeight = blockHeight
+      ? SessionManager.getSessionBlockHeight(
+          blockHeight,
+          await abortable(this.getBlocksPerSession(dispatchOptions), signal)
+        )
+      : 0
+
+    this.invalidate(applicationPubKey, chain)
+    return abortable(
+      this.renew(applicationPubKey, chain, dispatchOptions, sessionBlockHeight),
+      signal
+    )
+  }
+
+  /**
+   * Drops the cached session of an application and chain, so the next call dispatches a new one.
+   * @param {string} applicationPubKey - The application's public key.
+   * @param {string} chain - The chain of the session.
+   * */
+  invalidate(applicationPubKey: string, chain: string) {
+    delete this.sessions[SessionManager.getSessionKey(applicationPubKey, chain)]
+  }
+
+  /**
+   * Drops every cached session.
+   * */
+  clear() {
+    this.sessions = {}
+  }
+
+  /**
+   * Returns the height at which the cached session of an application and chain ends.
+   * @param {string} applicationPubKey - The application's public key.
+   * @param {string} chain - The chain of the session.
+   * @returns {number | undefined} - The height the next session starts at, if a session is cached.
+   * */
+  getExpirationHeight(
+    applicationPubKey: string,
+    chain: string
+  ): number | undefined {
+    return this.sessions[SessionManager.getSessionKey(applicationPubKey, chain)]
+      ?.expiresAt
+  }
+
+  private renew(
+    applicationPubKey: string,
+    chain: string,
+    options: SessionOptions,
+    sessionBlockHeight = 0
+  ): Promise<Session> {
+    // Only dispatches for the same session height can be shared.
+    const key = `${SessionManager.getSessionKey(
+      applicationPubKey,
+      chain
+    )}-${sessionBlockHeight}`
+
+    if (!this.pendingDispatches[key]) {
+      this.pendingDispatches[key] = this.dispatch(
+        applicationPubKey,
+        chain,
+        options,
+        sessionBlockHeight
+      ).finally(() => {
+        delete this.pendingDispatches[key]
+      })
+    }
+
+    return this.pendingDispatches[key]
+  }
+
+  private async dispatch(
+    applicationPubKey: string,
+    chain: string,
+    options: SessionOptions,
+    sessionBlockHeight: number
+  ): Promise<Session> {
+    const key = SessionManager.getSessionKey(applicationPubKey, chain)
+    const [{ blockHeight, session }, blocksPerSession] = await Promise.all([
+      this.provider.dispatch(
+        {
+          sessionHeader: {
+            applicationPubKey,
+            chain,
+            sessionBlockHeight,
+          },
+        },
+        options
+      ),
+      this.getBlocksPerSession(options),
+    ])
+
+    this.setHeight(Number(blockHeight))
+    const expiresAt =
+      Number(session.header.sessionBlockHeight) + blocksPerSession
+    this.logger(`cached session for ${key}, expiring at ${expiresAt}`)
+    this.sessions[key] = {
+      session,
+      expiresAt,
+      lastRefreshedAt: Date.now(),
+    }
+
+    return session
+  }
+
+  private async getBlocksPerSession(options: SessionOptions): Promise<number> {
+    if (this.blocksPerSession === undefined) {
+      const params = await this.provider.getAllParams(0, {
+        timeout: options.timeout,
+        retryPolicy: options.retryPolicy,
+      })
+      const blocksPerSession = Number(
+        getParam(params, BLOCKS_PER_SESSION_PARAM)
+      )
+
+      if (!blocksPerSession) {
+        throw new MissingNetworkParamError(
+          `Could not find ${BLOCKS_PER_SESSION_PARAM} in the network params`
+        )
+      }
+      this.blocksPerSession = blocksPerSession
+    }
+
+    return this.blocksPerSession
+  }
+
+  private async getHeight(): Promise<number> {
+    if (this.height && Date.now() - this.height.fetchedAt < this.heightTtl) {
+      return this.height.value
+    }
+
+    if (!this.pendingHeight) {
+      this.pendingHeight = this.provider
+        .getBlockNumber()
+        .then((height) => {
+          this.setHeight(Number(height))
+          return Number(height)
+        })
+        .finally(() => {
+          this.pendingHeight = undefined
+        })
+    }
+
+    return this.pendingHeight
+  }
+
+  private setHeight(height: number) {
+    this.height = { value: height, fetchedAt: Date.now() }
+  }
+
+  /**
+   * Finds the height at which the session covering a block starts.
+   * @param {number} blockHeight - The block height.
+   * @param {number} blocksPerSession - Length of a session in blocks.
+   * @returns {number} - The session block height.
+   * */
+  static getSessionBlockHeight(
+    blockHeight: number,
+    blocksPerSession: number
+  ): number {
+    return blockHeight - ((blockHeight - 1) % blocksPerSession)
+  }
+
+  static getSessionKey(applicationPubKey: string, chain: string): string {
+    return `${applicationPubKey}-${chain}`
+  }
+}
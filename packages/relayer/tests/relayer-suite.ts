@@ -0,0 +1,112 @@
+import {
+  HTTPMethod,
+  RelayHeaders,
+  RelayParams,
+} from '@pokt-foundation/pocketjs-types'
+import { AbstractRelayer } from '../src/abstract-relayer'
+
+export interface ReceivedRelay {
+  data: string
+  method: string
+  path: string
+  headers?: RelayHeaders | null
+}
+
+export interface RelayerSuiteContext {
+  relayer: AbstractRelayer
+  // Params the relayer needs on top of the payload, e.g an AAT and a session.
+  relayParams?: Partial<RelayParams>
+  // Makes the chain answer the relays that follow with a response, or fail them with an error.
+  respondWith: (outcome: string | Error) => void
+  // The relays that reached the chain so far, in order.
+  received: () => ReceivedRelay[]
+}
+
+/**
+ * Runs the tests every AbstractRelayer implementation must pass.
+ * @param {string} name - The name of the implementation.
+ * @param {Function} setup - Builds a relayer, along with a way to control and inspect the chain it relays to. Called before every test.
+ * */
+export function describeRelayer(
+  name: string,
+  setup: () => RelayerSuiteContext
+) {
+  describe(`${name}: relayer contract`, () => {
+    let context: RelayerSuiteContext
+
+    const relay = (params: Partial<RelayParams> = {}) =>
+      context.relayer.relay({
+        blockchain: '0021',
+        data: '{"method":"eth_blockNumber","id":1,"jsonrpc":"2.0"}',
+        ...context.relayParams,
+        ...params,
+      })
+
+    beforeEach(() => {
+      context = setup()
+      context.respondWith('{"id":1,"jsonrpc":"2.0","result":"0x1"}')
+    })
+
+    it('Returns the response of the chain', async () => {
+      const result = await relay()
+
+      expect(result.response).toBe('{"id":1,"jsonrpc":"2.0","result":"0x1"}')
+    })
+
+    it('Sends the data, method, path and headers along', async () => {
+      await relay({
+        data: '{"key":"value"}',
+        method: HTTPMethod.POST,
+        path: '/v1/query/height',
+        headers: { 'X-Custom': 'value' },
+      })
+
+      const [received] = context.received()
+      expect(received.data).toBe('{"key":"value"}')
+      expect(received.method).toBe('POST')
+      expect(received.path).toBe('/v1/query/height')
+      expect(received.headers).toMatchObject({ 'X-Custom': 'value' })
+    })
+
+    it('Appends query parameters to the path', async () => {
+      await relay({
+        data: '{"key":"value"}',
+        method: HTTPMethod.PUT,
+        path: '/v1/query?height=1',
+        query: { address: 'a b', tags: ['x', 'y'], skipped: undefined },
+      })
+
+      const [received] = context.received()
+      expect(received.method).toBe('PUT')
+      expect(received.path).toBe(
+        '/v1/query?height=1&address=a%20b&tags=x&tags=y'
+      )
+    })
+
+    it('Sends concurrent relays independently', async () => {
+      const results = await Promise.all(
+        ['1', '2', '3'].map((id) =>
+          relay({ data: `{"method":"eth_chainId","id":${id}}` })
+        )
+      )
+
+      expect(results).toHaveLength(3)
+      expect(
+        context
+          .received()
+          .map(({ data }) => data)
+          .sort()
+      ).toEqual([
+        '{"method":"eth_chainId","id":1}',
+        '{"method":"eth_chainId","id":2}',
+        '{"method":"eth_chainId","id":3}',
+      ])
+    })
+
+    it('Rejects when the chain cannot be reached', async () => {
+      context.respondWith(new Error('connection refused'))
+
+      await expect(relay()).rejects.toBeInstanceOf(Error)
+    })
+  })
+}
@@ -0,0 +1,1701 @@
+import sha3 from 'js-sha3'
+import {
+  BaseProvider,
+  InvalidArgumentError,
+  MetricsCollector,
+  RequestAbortedError,
+} from '@pokt-foundation/pocketjs-abstract-provider'
+import { KeyManager } from '@pokt-foundation/pocketjs-signer'
+import {
+  HTTPMethod,
+  Node,
+  StakingStatus,
+} from '@pokt-foundation/pocketjs-types'
+import { decodeAAT, encodeAAT, validateAAT, verifyAAT } from '../src/aat'
+import { ChallengeBuilder, ChallengeableRelay } from '../src/challenge-builder'
+import {
+  ConsensusNotReachedError,
+  GatewayRelayError,
+  InvalidAATError,
+  InvalidChallengeError,
+  InvalidRelayDataError,
+  InvalidRelaySignatureError,
+  MissingAATError,
+  OverServiceError,
+  PocketCoreErrorCodes,
+  RelayBudgetExhaustedError,
+  UnsupportedBlockchainError,
+  validateRelayResponse,
+} from '../src/errors'
+import { jsonRpcResultMatch } from '../src/consensus'
+import { GatewayRelayer } from '../src/gateway-relayer'
+import {
+  LowestLatencyNodeSelection,
+  NodeSelectionStrategy,
+  NodeStatsTracker,
+  RandomNodeSelection,
+  RoundRobinNodeSelection,
+  SuccessRateNodeSelection,
+} from '../src/node-selection'
+import { RelayBudgetTracker } from '../src/relay-budget'
+import {
+  buildRelayPath,
+  encodeQuery,
+  mergeHeaders,
+  toRelayData,
+} from '../src/relay-payload'
+import { Relayer } from '../src/relayer'
+import { SessionManager } from '../src/session-manager'
+import { describeRelayer, ReceivedRelay } from './relayer-suite'
+
+const REPORTER_ADDRESS = 'b50a6e20d3733fb89631ae32385b3c85c533c560'
+
+function mockRelay(
+  servicerPubKey: string,
+  response: string
+): ChallengeableRelay {
+  return {
+    response,
+    signature: `${servicerPubKey}-signature`,
+    relayProof: {
+      entropy: 3908904207717607,
+      sessionBlockheight: 59129,
+      servicerPubKey,
+      blockchain: '0021',
+      aat: {
+        version: '0.0.1',
+        appPubKey: 'app',
+        clientPubKey: 'client',
+        signature: 'aat-signature',
+      },
+      signature: 'proof-signature',
+      requestHash: 'request-hash',
+    },
+  }
+}
+
+describe('Relayer: ChallengeBuilder tests', () => {
+  it('Builds a challenge request out of relays', () => {
+    const challenge = ChallengeBuilder.build({
+      majorityRelays: [
+        mockRelay('node1', '{"result":"0x1"}'),
+        mockRelay('node2', '{"result":"0x1"}'),
+      ],
+      minorityRelay: mockRelay('node3', '{"result":"0x2"}'),
+      reporterAddress: REPORTER_ADDRESS,
+    })
+
+    expect(challenge.reporterAddress).toBe(REPORTER_ADDRESS)
+    expect(challenge.majorityResponses.length).toBe(2)
+    expect(challenge.minorityResponse.response).toBe('{"result":"0x2"}')
+    expect(challenge.minorityResponse.signature).toBe('node3-signature')
+    expect(challenge.minorityResponse.proof.entropy).toBe('3908904207717607')
+    expect(challenge.minorityResponse.proof.token.applicationPublicKey).toBe(
+      'app'
+    )
+  })
+
+  it('Fails if the minority response matches the majority', () => {
+    expect(() =>
+      ChallengeBuilder.build({
+        majorityRelays: [mockRelay('node1', '{"result":"0x1"}')],
+        minorityRelay: mockRelay('node2', '{"result":"0x1"}'),
+        reporterAddress: REPORTER_ADDRESS,
+      })
+    ).toThrow(InvalidChallengeError)
+  })
+
+  it('Fails if the majority responses disagree', () => {
+    expect(() =>
+      ChallengeBuilder.build({
+        majorityRelays: [
+          mockRelay('node1', '{"result":"0x1"}'),
+          mockRelay('node2', '{"result":"0x3"}'),
+        ],
+        minorityRelay: mockRelay('node3', '{"result":"0x2"}'),
+        reporterAddress: REPORTER_ADDRESS,
+      })
+    ).toThrow(/Majority relay responses do not match/)
+  })
+
+  it('Fails if the same servicer is reported twice', () => {
+    expect(() =>
+      ChallengeBuilder.build({
+        majorityRelays: [mockRelay('node1', '{"result":"0x1"}')],
+        minorityRelay: mockRelay('node1', '{"result":"0x2"}'),
+        reporterAddress: REPORTER_ADDRESS,
+      })
+    ).toThrow(/different servicer/)
+  })
+})
+
+const APP_PUB_KEY =
+  'a7e8ec112d0ba2a1b9a6b2b2a4e0d4e6f4ab7e8d9c0b1a2f3e4d5c6b7a8f9e0d'
+
+function mockSessionProvider({
+  height,
+  sessionBlockHeight,
+}: {
+  height: number
+  sessionBlockHeight: number
+}) {
+  const chain = { height, sessionBlockHeight }
+  const provider = {
+    dispatch: jest.fn(async ({ sessionHeader }) => ({
+      blockHeight: chain.height,
+      session: {
+        blockHeight: chain.height,
+        header: {
+          applicationPubKey: sessionHeader.applicationPubKey,
+          chain: sessionHeader.chain,
+          sessionBlockHeight: chain.sessionBlockHeight,
+        },
+        key: `session-${chain.sessionBlockHeight}`,
+        nodes: [],
+      },
+    })),
+    getAllParams: jest.fn(async () => ({
+      node_params: [{ param_key: 'pos/BlocksPerSession', param_value: '4' }],
+    })),
+    getBlockNumber: jest.fn(async () => chain.height),
+  }
+  return { chain, provider }
+}
+
+describe('Relayer: SessionManager tests', () => {
+  it('Caches sessions until the network rolls over', async () => {
+    const { chain, provider } = mockSessionProvider({
+      height: 101,
+      sessionBlockHeight: 101,
+    })
+    const sessionManager = new SessionManager({
+      provider: provider as any,
+      heightTtl: 0,
+    })
+
+    const first = await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+    chain.height = 102
+    const second = await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+
+    expect(second).toBe(first)
+    expect(provider.dispatch).toHaveBeenCalledTimes(1)
+    expect(sessionManager.getExpirationHeight(APP_PUB_KEY, '0021')).toBe(105)
+
+    chain.height = 105
+    chain.sessionBlockHeight = 105
+    const third = await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+
+    expect(third.key).toBe('session-105')
+    expect(provider.dispatch).toHaveBeenCalledTimes(2)
+    expect(provider.getAllParams).toHaveBeenCalledTimes(1)
+  })
+
+  it('Keeps sessions per application and chain', async () => {
+    const { provider } = mockSessionProvider({
+      height: 101,
+      sessionBlockHeight: 101,
+    })
+    const sessionManager = new SessionManager({
+      provider: provider as any,
+      blocksPerSession: 4,
+    })
+
+    await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+    await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0040',
+    })
+
+    expect(provider.dispatch).toHaveBeenCalledTimes(2)
+    expect(provider.getAllParams).not.toHaveBeenCalled()
+  })
+
+  it('Shares a single dispatch between concurrent calls', async () => {
+    const { provider } = mockSessionProvider({
+      height: 101,
+      sessionBlockHeight: 101,
+    })
+    const sessionManager = new SessionManager({ provider: provider as any })
+
+    const sessions = await Promise.all(
+      [1, 2, 3].map(() =>
+        sessionManager.getSession({
+          applicationPubKey: APP_PUB_KEY,
+          chain: '0021',
+        })
+      )
+    )
+
+    expect(provider.dispatch).toHaveBeenCalledTimes(1)
+    expect(sessions[1]).toBe(sessions[0])
+    expect(sessions[2]).toBe(sessions[0])
+  })
+
+  it('Does not share dispatches for another session height', async () => {
+    const { chain, provider } = mockSessionProvider({
+      height: 101,
+      sessionBlockHeight: 101,
+    })
+    const dispatch = provider.dispatch.getMockImplementation()
+    provider.dispatch.mockImplementation(async ({ sessionHeader }) => {
+      const dispatched = await dispatch!({ sessionHeader })
+      return sessionHeader.sessionBlockHeight
+        ? {
+            ...dispatched,
+            session: {
+              ...dispatched.session,
+              key: `session-${sessionHeader.sessionBlockHeight}`,
+            },
+          }
+        : dispatched
+    })
+    const sessionManager = new SessionManager({
+      provider: provider as any,
+      blocksPerSession: 4,
+    })
+
+    const latest = sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+    chain.height = 106
+    const refreshed = await sessionManager.refresh({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+      blockHeight: 106,
+    })
+
+    expect((await latest).key).toBe('session-101')
+    expect(refreshed.key).toBe('session-105')
+    expect(provider.dispatch).toHaveBeenCalledTimes(2)
+  })
+
+  it('Refreshes in the background ahead of rollover', async () => {
+    const { chain, provider } = mockSessionProvider({
+      height: 101,
+      sessionBlockHeight: 101,
+    })
+    const sessionManager = new SessionManager({
+      provider: provider as any,
+      heightTtl: 0,
+      refreshAheadBlocks: 1,
+    })
+
+    await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+    chain.height = 104
+    const session = await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+
+    expect(session.key).toBe('session-101')
+    expect(provider.dispatch).toHaveBeenCalledTimes(2)
+  })
+
+  it('Dispatches again once a session is invalidated', async () => {
+    const { provider } = mockSessionProvider({
+      height: 101,
+      sessionBlockHeight: 101,
+    })
+    const sessionManager = new SessionManager({ provider: provider as any })
+
+    await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+    sessionManager.invalidate(APP_PUB_KEY, '0021')
+    await sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+
+    expect(provider.dispatch).toHaveBeenCalledTimes(2)
+  })
+})
+
+function mockNode(id: number): Node {
+  return {
+    address: `address-${id}`,
+    chains: ['0021'],
+    jailed: false,
+    outputAddress: `address-${id}`,
+    publicKey: `${id}`.repeat(64),
+    rewardDelegators: undefined,
+    serviceUrl: `http://node-${id}`,
+    stakedTokens: '15000000000',
+    status: StakingStatus.Staked,
+    unstakingTime: '',
+  }
+}
+
+const SESSION = {
+  blockHeight: 101,
+  header: {
+    applicationPubKey: APP_PUB_KEY,
+    chain: '0021',
+    sessionBlockHeight: 101,
+  },
+  key: 'session-101',
+  nodes: [mockNode(1), mockNode(2), mockNode(3)],
+}
+
+const POCKET_AAT = {
+  version: '0.0.1',
+  applicationPublicKey: APP_PUB_KEY,
+  clientPublicKey: APP_PUB_KEY,
+  applicationSignature: 'aat-signature',
+}
+
+function timeoutError() {
+  const error = new Error('Provider timed out during request')
+  error.name = 'TimeoutError'
+  return error
+}
+
+// Servicers answer with the outcome registered for their url, or successfully.
+function mockRelayer(
+  failures: Record<string, () => Error>,
+  nodeSelection?: NodeSelectionStrategy,
+  responses: Record<string, string> = {}
+) {
+  const provider = {
+    relay: jest.fn(async (request, rpcUrl: string) => {
+      if (failures[rpcUrl]) {
+        throw failures[rpcUrl]()
+      }
+      return {
+        response: responses[rpcUrl] ?? `{"result":"0x1"}`,
+        signature: 'servicer-signature',
+      }
+    }),
+  }
+  const keyManager = {
+    sign: async () => 'proof-signature',
+    getPublicKey: () => APP_PUB_KEY,
+    getAddress: () => REPORTER_ADDRESS,
+  }
+  const relayer = new Relayer({
+    keyManager: keyManager as any,
+    provider: provider as any,
+    nodeSelection,
+  })
+  return { provider, relayer }
+}
+
+const RELAY_PARAMS = {
+  blockchain: '0021',
+  data: '{"method":"eth_blockNumber","id":1,"jsonrpc":"2.0"}',
+  method: '' as const,
+  path: '',
+  pocketAAT: POCKET_AAT,
+  session: SESSION,
+}
+
+function mockContractRelayer(
+  relayParams: Partial<typeof RELAY_PARAMS>,
+  pocketAAT?: typeof POCKET_AAT
+) {
+  const received: ReceivedRelay[] = []
+  let outcome: string | Error = ''
+  const provider = {
+    relay: jest.fn(async (request) => {
+      received.push(request.payload)
+      if (outcome instanceof Error) {
+        throw outcome
+      }
+      return { response: outcome, signature: 'servicer-signature' }
+    }),
+    dispatch: jest.fn(async () => ({ blockHeight: 103, session: SESSION })),
+  }
+  const relayer = new Relayer({
+    keyManager: { sign: async () => 'proof-signature' } as any,
+    provider: provider as any,
+    sessionManager: new SessionManager({
+      provider: provider as any,
+      blocksPerSession: 4,
+    }),
+    pocketAAT,
+  })
+
+  return {
+    relayer,
+    relayParams,
+    respondWith: (next: string | Error) => {
+      outcome = next
+    },
+    received: () => received,
+  }
+}
+
+describeRelayer('Relayer', () =>
+  mockContractRelayer({ pocketAAT: POCKET_AAT, session: SESSION })
+)
+
+describeRelayer('Relayer with its own AAT and sessions', () =>
+  mockContractRelayer({}, POCKET_AAT)
+)
+
+describe('Relayer: relay tests', () => {
+  it('Throws on servicer failure unless retries are enabled', async () => {
+    const { provider, relayer } = mockRelayer({ 'http://node-1': timeoutError })
+
+    const error = await relayer
+      .relay({ ...RELAY_PARAMS, node: SESSION.nodes[0] })
+      .catch((err) => err)
+
+    expect(error.name).toBe('TimeoutError')
+    expect(error.attempts).toHaveLength(1)
+    expect(provider.relay).toHaveBeenCalledTimes(1)
+  })
+
+  it('Retries on other servicers of the session', async () => {
+    const { provider, relayer } = mockRelayer({
+      'http://node-1': timeoutError,
+      'http://node-2': () =>
+        new OverServiceError(
+          PocketCoreErrorCodes.OverServiceError,
+          'over service'
+        ),
+    })
+
+    const relay = await relayer.relay({
+      ...RELAY_PARAMS,
+      node: SESSION.nodes[0],
+      options: { maxNodeAttempts: 3 },
+    })
+
+    const urls = relay.attempts.map(({ serviceNode }) => serviceNode.serviceUrl)
+    expect(relay.response).toBe('{"result":"0x1"}')
+    expect(relay.attempts[0]).toEqual({
+      serviceNode: SESSION.nodes[0],
+      error: 'TimeoutError',
+    })
+    expect(relay.attempts[relay.attempts.length - 1]).toEqual({
+      serviceNode: relay.serviceNode,
+    })
+    expect(new Set(urls).size).toBe(urls.length)
+    expect(provider.relay).toHaveBeenCalledTimes(relay.attempts.length)
+  })
+
+  it('Stops after the maximum number of attempts', async () => {
+    const { provider, relayer } = mockRelayer({
+      'http://node-1': timeoutError,
+      'http://node-2': timeoutError,
+      'http://node-3': timeoutError,
+    })
+
+    const error = await relayer
+      .relay({
+        ...RELAY_PARAMS,
+        node: SESSION.nodes[0],
+        options: { maxNodeAttempts: 2 },
+      })
+      .catch((err) => err)
+
+    expect(error.name).toBe('TimeoutError')
+    expect(error.attempts).toHaveLength(2)
+    expect(provider.relay).toHaveBeenCalledTimes(2)
+  })
+
+  it('Fetches the session of its own AAT when none is given', async () => {
+    const { relayer } = mockContractRelayer({}, POCKET_AAT)
+    const provider = relayer.provider as any
+
+    const relay = await relayer.relay({ blockchain: '0021', data: '{}' })
+
+    expect(relay.session).toBe(SESSION)
+    expect(provider.dispatch).toHaveBeenCalledWith(
+      {
+        sessionHeader: expect.objectContaining({
+          applicationPubKey: APP_PUB_KEY,
+          chain: '0021',
+        }),
+      },
+      expect.anything()
+    )
+  })
+
+  it('Requires an AAT', async () => {
+    const { relayer } = mockContractRelayer({})
+
+    await expect(
+      relayer.relay({ blockchain: '0021', data: '{}', session: SESSION })
+    ).rejects.toBeInstanceOf(MissingAATError)
+  })
+
+  it('Does not retry failures unrelated to the servicer', async () => {
+    const { provider, relayer } = mockRelayer({
+      'http://node-1': () => {
+        const error = new Error('app not found')
+        error.name = 'AppNotFoundError'
+        return error
+      },
+    })
+
+    const error = await relayer
+      .relay({
+        ...RELAY_PARAMS,
+        node: SESSION.nodes[0],
+        options: { maxNodeAttempts: 3 },
+      })
+      .catch((err) => err)
+
+    expect(error.name).toBe('AppNotFoundError')
+    expect(provider.relay).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('Relayer: node selection tests', () => {
+  const [first, second, third] = SESSION.nodes
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('Picks session nodes uniformly', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.99)
+
+    expect(Relayer.getRandomSessionNode(SESSION)).toBe(third)
+    expect(new RandomNodeSelection().selectNode({ nodes: SESSION.nodes })).toBe(
+      third
+    )
+  })
+
+  it('Goes through the session nodes in turn', () => {
+    const selection = new RoundRobinNodeSelection()
+    const select = (nodes: Node[]) =>
+      selection.selectNode({ session: SESSION, nodes })
+
+    expect(select(SESSION.nodes)).toBe(first)
+    expect(select(SESSION.nodes)).toBe(second)
+    expect(select([first, second])).toBe(first)
+    expect(select(SESSION.nodes)).toBe(second)
+  })
+
+  it('Picks the fastest node once every node was measured', () => {
+    const selection = new LowestLatencyNodeSelection()
+    const tracker = new NodeStatsTracker()
+    tracker.recordSuccess(SESSION, first, 300)
+    tracker.recordSuccess(SESSION, second, 100)
+
+    expect(
+      selection.selectNode({
+        nodes: SESSION.nodes,
+        stats: tracker.getStats(SESSION),
+      })
+    ).toBe(third)
+
+    tracker.recordSuccess(SESSION, third, 200)
+    expect(
+      selection.selectNode({
+        nodes: SESSION.nodes,
+        stats: tracker.getStats(SESSION),
+      })
+    ).toBe(second)
+  })
+
+  it('Prefers slower healthy nodes over nodes failing fast', () => {
+    const selection = new LowestLatencyNodeSelection()
+    const tracker = new NodeStatsTracker()
+    tracker.recordFailure(SESSION, first, 5)
+    tracker.recordSuccess(SESSION, second, 30)
+    tracker.recordFailure(SESSION, second, 1)
+    tracker.recordSuccess(SESSION, third, 300)
+    const select = () =>
+      selection.selectNode({
+        nodes: SESSION.nodes,
+        stats: tracker.getStats(SESSION),
+      })
+
+    expect(tracker.getStats(SESSION)[second.publicKey].latency).toBe(30)
+    expect(select()).toBe(second)
+
+    // Ten times faster, but succeeding less than once every ten relays.
+    for (let i = 0; i < 9; i++) {
+      tracker.recordFailure(SESSION, second, 1)
+    }
+    expect(select()).toBe(third)
+  })
+
+  it('Weights nodes by their success rate', () => {
+    const tracker = new NodeStatsTracker()
+    for (let i = 0; i < 8; i++) {
+      tracker.recordFailure(SESSION, first, 100)
+    }
+    tracker.recordSuccess(SESSION, second, 100)
+    const stats = tracker.getStats(SESSION)
+    // Weights are 0.1, 0.67 and 0.5.
+    const pick = (random: number) => {
+      jest.spyOn(Math, 'random').mockReturnValue(random)
+      return new SuccessRateNodeSelection().selectNode({
+        nodes: SESSION.nodes,
+        stats,
+      })
+    }
+
+    expect(pick(0.05)).toBe(first)
+    expect(pick(0.2)).toBe(second)
+    expect(pick(0.9)).toBe(third)
+  })
+
+  it('Keeps stats separately for each session', () => {
+    const tracker = new NodeStatsTracker({ maxSessions: 1 })
+    const nextSession = {
+      ...SESSION,
+      header: { ...SESSION.header, sessionBlockHeight: 105 },
+    }
+    tracker.recordSuccess(SESSION, first, 100)
+    tracker.recordFailure(SESSION, first, 300)
+
+    expect(tracker.getStats(SESSION)).toEqual({
+      [first.publicKey]: {
+        publicKey: first.publicKey,
+        latency: 100,
+        relays: 2,
+        failures: 1,
+        successRate: 0.5,
+      },
+    })
+    expect(tracker.getStats(nextSession)).toEqual({})
+
+    tracker.recordSuccess(nextSession, first, 100)
+    expect(tracker.getStats(SESSION)).toEqual({})
+  })
+
+  it('Feeds the stats of previous relays to the strategy', async () => {
+    const selection = { selectNode: jest.fn(({ nodes }) => nodes[0]) }
+    const { relayer } = mockRelayer(
+      { 'http://node-1': timeoutError },
+      selection
+    )
+
+    await relayer.relay({ ...RELAY_PARAMS, options: { maxNodeAttempts: 2 } })
+
+    const stats = relayer.getNodeStats(SESSION)
+    expect(stats[first.publicKey]).toMatchObject({ relays: 1, failures: 1 })
+    expect(stats[second.publicKey]).toMatchObject({ relays: 1, failures: 0 })
+    expect(selection.selectNode).toHaveBeenCalledTimes(2)
+    expect(selection.selectNode.mock.calls[1][0].nodes).toEqual([second, third])
+    expect(
+      selection.selectNode.mock.calls[1][0].stats[first.publicKey]
+    ).toMatchObject({ failures: 1 })
+  })
+})
+
+// Signs relay responses the way pocket-core servicers do, over the response
+// and the hash of the proof it answers, serialized by Go's encoding/json.
+async function signRelayResponse(
+  servicer: KeyManager,
+  proof: any,
+  serializedResponse: string
+) {
+  const proofHash = sha3.sha3_256
+    .create()
+    .update(
+      JSON.stringify({
+        entropy: proof.entropy,
+        session_block_height: proof.session_block_height,
+        servicer_pub_key: proof.servicer_pub_key,
+        blockchain: proof.blockchain,
+        signature: '',
+        token: Relayer.hashAAT(POCKET_AAT),
+        request_hash: proof.request_hash,
+      })
+    )
+    .hex()
+  const responseHash = sha3.sha3_256
+    .create()
+    .update(
+      `{"signature":"","payload":${serializedResponse},"proof":"${proofHash}"}`
+    )
+    .hex()
+
+  return servicer.sign(responseHash)
+}
+
+describe('Relayer: relay signature tests', () => {
+  const SERVICER_PRIVATE_KEY =
+    '1f8cbde30ef5a9db0a5a9d5eb40536fc9defc318b8581d543808b7504e0902bcb243b27bc9fbe5580457a46370ae5f03a6f6753633e51efdaf2cf534fdc26cc3'
+
+  async function mockServicer({
+    response,
+    serializedResponse = JSON.stringify(response),
+    signer,
+  }: {
+    response: string
+    serializedResponse?: string
+    signer?: KeyManager
+  }) {
+    const servicer = await KeyManager.fromPrivateKey(SERVICER_PRIVATE_KEY)
+    const node = { ...mockNode(1), publicKey: servicer.getPublicKey() }
+    const provider = {
+      relay: jest.fn(async ({ proof }) => ({
+        response,
+        signature: await signRelayResponse(
+          signer ?? servicer,
+          proof,
+          serializedResponse
+        ),
+      })),
+    }
+    const relay = (verifyRelaySignature?: boolean) =>
+      Relayer.relay({
+        ...RELAY_PARAMS,
+        session: { ...SESSION, nodes: [node] },
+        node,
+        keyManager: servicer,
+        provider: provider as any,
+        options: { verifyRelaySignature },
+      })
+
+    return { node, relay }
+  }
+
+  it('Accepts responses signed by the servicer', async () => {
+    const { node, relay } = await mockServicer({
+      response: '{"result":"0x1"}',
+    })
+
+    const result = await relay(true)
+
+    expect(result.response).toBe('{"result":"0x1"}')
+    expect(result.serviceNode).toBe(node)
+  })
+
+  it('Hashes responses the way servicers serialize them', async () => {
+    const { relay } = await mockServicer({
+      response: '{"result":"<b>&\u2028</b>"}',
+      serializedResponse:
+        '"{\\"result\\":\\"\\u003cb\\u003e\\u0026\\u2028\\u003c/b\\u003e\\"}"',
+    })
+
+    await expect(relay(true)).resolves.toBeDefined()
+  })
+
+  it('Rejects responses not signed by the servicer', async () => {
+    const { relay } = await mockServicer({
+      response: '{"result":"0x1"}',
+      signer: await KeyManager.createRandom(),
+    })
+
+    await expect(relay(true)).rejects.toBeInstanceOf(InvalidRelaySignatureError)
+    // Verification is opt-in.
+    await expect(relay()).resolves.toBeDefined()
+  })
+})
+
+describe('Relayer: consensus relay tests', () => {
+  const [first, second, third] = SESSION.nodes
+
+  it('Returns the majority response and flags dissenters', async () => {
+    const { provider, relayer } = mockRelayer({}, undefined, {
+      'http://node-2': '{"result":"0x2"}',
+    })
+
+    const result = await relayer.consensusRelay(RELAY_PARAMS)
+
+    expect(provider.relay).toHaveBeenCalledTimes(3)
+    expect(result.response).toBe('{"result":"0x1"}')
+    expect(result.relays).toHaveLength(3)
+    expect(result.majorityRelays.map(({ serviceNode }) => serviceNode)).toEqual(
+      expect.arrayContaining([first, third])
+    )
+    expect(result.dissentingNodes).toEqual([second])
+    expect(result.failures).toEqual([])
+
+    const challenge = ChallengeBuilder.build({
+      majorityRelays: result.majorityRelays,
+      minorityRelay: result.minorityRelays[0],
+      reporterAddress: REPORTER_ADDRESS,
+    })
+    expect(challenge.minorityResponse.proof.servicerPubKey).toBe(
+      second.publicKey
+    )
+  })
+
+  it('Reaches consensus despite servicer failures', async () => {
+    const { relayer } = mockRelayer({ 'http://node-1': timeoutError })
+
+    const result = await relayer.consensusRelay(RELAY_PARAMS)
+
+    expect(result.response).toBe('{"result":"0x1"}')
+    expect(result.majorityRelays).toHaveLength(2)
+    expect(result.failures).toEqual([
+      { serviceNode: first, error: 'TimeoutError' },
+    ])
+  })
+
+  it('Fails when no response reaches the quorum', async () => {
+    const { relayer } = mockRelayer(
+      { 'http://node-1': timeoutError },
+      undefined,
+      {
+        'http://node-3': '{"result":"0x2"}',
+      }
+    )
+
+    const error = await relayer.consensusRelay(RELAY_PARAMS).catch((err) => err)
+
+    expect(error).toBeInstanceOf(ConsensusNotReachedError)
+    expect(error.relays).toHaveLength(2)
+    expect(error.failures).toHaveLength(1)
+
+    const unanimity = await relayer
+      .consensusRelay({
+        ...RELAY_PARAMS,
+        nodes: [second, third],
+        quorum: 2,
+      })
+      .catch((err) => err)
+    expect(unanimity).toBeInstanceOf(ConsensusNotReachedError)
+  })
+
+  it('Fails when fewer servicers than the quorum are available', async () => {
+    const { provider, relayer } = mockRelayer({})
+
+    const error = await relayer
+      .consensusRelay({ ...RELAY_PARAMS, nodeCount: 7 })
+      .catch((err) => err)
+
+    expect(error).toBeInstanceOf(ConsensusNotReachedError)
+    expect(error.message).toMatch(/fewer than the 4 that must agree/)
+    expect(error.relays).toEqual([])
+    expect(provider.relay).not.toHaveBeenCalled()
+  })
+
+  it('Compares JSON-RPC results with a comparator', async () => {
+    const { relayer } = mockRelayer({}, undefined, {
+      'http://node-1': '{"jsonrpc":"2.0","id":1,"result":{"a":1,"b":2}}',
+      'http://node-2': '{"result":{"b":2,"a":1},"id":1,"jsonrpc":"2.0"}',
+      'http://node-3': '{"jsonrpc":"2.0","id":1,"result":{"a":1,"b":3}}',
+    })
+
+    const exact = await relayer.consensusRelay(RELAY_PARAMS).catch((err) => err)
+    const result = await relayer.consensusRelay({
+      ...RELAY_PARAMS,
+      compare: jsonRpcResultMatch,
+    })
+
+    expect(exact).toBeInstanceOf(ConsensusNotReachedError)
+    expect(result.dissentingNodes).toEqual([third])
+    expect(
+      jsonRpcResultMatch(
+        '[{"id":2,"result":"0x2"},{"id":1,"result":"0x1"}]',
+        '[{"id":1,"result":"0x1"},{"id":2,"result":"0x2"}]'
+      )
+    ).toBe(true)
+    expect(jsonRpcResultMatch('not json', 'not json')).toBe(true)
+  })
+})
+
+describe('Relayer: batch relay tests', () => {
+  it('Returns results in order, with per-item errors', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const provider = {
+      relay: jest.fn(async ({ payload }) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        const { id, delay } = JSON.parse(payload.data)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        inFlight--
+
+        if (id === 2) {
+          throw timeoutError()
+        }
+        return { response: `{"id":${id}}`, signature: 'servicer-signature' }
+      }),
+    }
+    const relayer = new Relayer({
+      keyManager: {
+        sign: async () => 'proof-signature',
+        getPublicKey: () => APP_PUB_KEY,
+      } as any,
+      provider: provider as any,
+    })
+    const payloads = [30, 5, 20, 1, 10].map((delay, id) => ({
+      data: JSON.stringify({ id, delay }),
+    }))
+
+    const results = await relayer.relayBatch({
+      ...RELAY_PARAMS,
+      payloads,
+      concurrency: 2,
+    })
+
+    expect(maxInFlight).toBe(2)
+    expect(provider.relay).toHaveBeenCalledTimes(5)
+    expect(results.map(({ status }) => status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+      'fulfilled',
+    ])
+    results.forEach((result, id) => {
+      if (result.status === 'fulfilled') {
+        expect(result.relay.response).toBe(`{"id":${id}}`)
+      } else {
+        expect(result.error.name).toBe('TimeoutError')
+      }
+    })
+  })
+
+  it('Handles empty batches', async () => {
+    const { provider, relayer } = mockRelayer({})
+
+    expect(await relayer.relayBatch({ ...RELAY_PARAMS, payloads: [] })).toEqual(
+      []
+    )
+    expect(provider.relay).not.toHaveBeenCalled()
+  })
+
+  it('Rejects a concurrency that is not a positive integer', async () => {
+    const { provider, relayer } = mockRelayer({})
+    const payloads = [{ data: '{}' }]
+
+    for (const concurrency of [NaN, 0, -1, 1.5, Infinity]) {
+      await expect(
+        relayer.relayBatch({ ...RELAY_PARAMS, payloads, concurrency })
+      ).rejects.toBeInstanceOf(InvalidArgumentError)
+    }
+    expect(provider.relay).not.toHaveBeenCalled()
+  })
+})
+
+describe('Relayer: relay budget tests', () => {
+  function mockBudgetRelayer(failures: Record<string, () => Error> = {}) {
+    const { provider } = mockRelayer(failures)
+    const budgetProvider = {
+      getApp: jest.fn(async () => ({
+        maxRelays: '12',
+        chains: ['0021', '0040'],
+      })),
+      getAllParams: jest.fn(async () => ({
+        pocket_params: [
+          { param_key: 'pocketcore/SessionNodeCount', param_value: '3' },
+        ],
+      })),
+    }
+    const relayBudget = new RelayBudgetTracker({
+      provider: budgetProvider as any,
+    })
+    const relayer = new Relayer({
+      keyManager: { sign: async () => 'proof-signature' } as any,
+      provider: provider as any,
+      relayBudget,
+    })
+
+    return { budgetProvider, provider, relayBudget, relayer }
+  }
+
+  it('Computes the relays each servicer serves', () => {
+    expect(
+      RelayBudgetTracker.getMaxRelaysPerNode({
+        maxRelays: '100000',
+        chainCount: 2,
+        sessionNodeCount: 24,
+      })
+    ).toBe(2083)
+    expect(
+      RelayBudgetTracker.getAddressFromPublicKey(
+        'b243b27bc9fbe5580457a46370ae5f03a6f6753633e51efdaf2cf534fdc26cc3'
+      )
+    ).toBe(REPORTER_ADDRESS)
+  })
+
+  it('Routes relays to servicers with budget left', async () => {
+    const { budgetProvider, provider, relayBudget, relayer } =
+      mockBudgetRelayer()
+
+    for (let i = 0; i < 6; i++) {
+      await relayer.relay(RELAY_PARAMS)
+    }
+
+    const urls = provider.relay.mock.calls.map(([, url]) => url).sort()
+    expect(urls).toEqual([
+      'http://node-1',
+      'http://node-1',
+      'http://node-2',
+      'http://node-2',
+      'http://node-3',
+      'http://node-3',
+    ])
+    expect(budgetProvider.getApp).toHaveBeenCalledTimes(1)
+    expect(relayBudget.getBudgets(SESSION)).toEqual(
+      SESSION.nodes.map(({ publicKey }) => ({
+        publicKey,
+        allowance: 2,
+        sent: 2,
+        remaining: 0,
+      }))
+    )
+    await expect(relayer.relay(RELAY_PARAMS)).rejects.toBeInstanceOf(
+      RelayBudgetExhaustedError
+    )
+    await expect(
+      relayer.relay({ ...RELAY_PARAMS, node: SESSION.nodes[0] })
+    ).rejects.toBeInstanceOf(RelayBudgetExhaustedError)
+    expect(provider.relay).toHaveBeenCalledTimes(6)
+  })
+
+  it('Takes servicers over service out of rotation', async () => {
+    const { relayBudget, relayer } = mockBudgetRelayer({
+      'http://node-1': () =>
+        new OverServiceError(
+          PocketCoreErrorCodes.OverServiceError,
+          'over service'
+        ),
+    })
+
+    const relay = await relayer.relay({
+      ...RELAY_PARAMS,
+      node: SESSION.nodes[0],
+      options: { maxNodeAttempts: 2 },
+    })
+
+    expect(relay.serviceNode).not.toBe(SESSION.nodes[0])
+    expect(relayBudget.getRemaining(SESSION, SESSION.nodes[0])).toBe(0)
+  })
+})
+
+describe('Relayer: session renewal tests', () => {
+  const RENEWED_SESSION = {
+    blockHeight: 107,
+    header: { ...SESSION.header, sessionBlockHeight: 105 },
+    key: 'session-105',
+    nodes: [mockNode(4), mockNode(5)],
+  }
+
+  function outOfSync(blockHeight?: number) {
+    return {
+      error: {
+        code: PocketCoreErrorCodes.OutOfSyncRequestError,
+        codespace: 'pocketcore',
+        message:
+          'the request block height is out of sync with the current block height',
+      },
+      ...(blockHeight ? { dispatch: { block_height: blockHeight } } : {}),
+    }
+  }
+
+  function mockRenewingRelayer(relayResponses: any[]) {
+    const provider = {
+      relay: jest.fn(async () => relayResponses.shift()),
+      dispatch: jest.fn(async () => ({
+        blockHeight: 107,
+        session: RENEWED_SESSION,
+      })),
+    }
+    const onSessionRenewed = jest.fn()
+    const relayer = new Relayer({
+      keyManager: { sign: async () => 'proof-signature' } as any,
+      provider: provider as any,
+      sessionManager: new SessionManager({
+        provider: provider as any,
+        blocksPerSession: 4,
+      }),
+      hooks: { onSessionRenewed },
+    })
+
+    return { onSessionRenewed, provider, relayer }
+  }
+
+  it('Reads the height hint of session errors', () => {
+    expect(() => validateRelayResponse(outOfSync(107))).toThrow(
+      expect.objectContaining({
+        name: 'OutOfSyncRequestError',
+        blockHeight: 107,
+      })
+    )
+    expect(() => validateRelayResponse(outOfSync())).toThrow(
+      expect.objectContaining({ blockHeight: undefined })
+    )
+  })
+
+  it('Finds the session covering a block', () => {
+    expect(SessionManager.getSessionBlockHeight(105, 4)).toBe(105)
+    expect(SessionManager.getSessionBlockHeight(108, 4)).toBe(105)
+    expect(SessionManager.getSessionBlockHeight(109, 4)).toBe(109)
+  })
+
+  it('Renews the session and retries once', async () => {
+    const { onSessionRenewed, provider, relayer } = mockRenewingRelayer([
+      outOfSync(107),
+      { response: '{"result":"0x1"}', signature: 'servicer-signature' },
+    ])
+
+    const relay = await relayer.relay(RELAY_PARAMS)
+
+    expect(relay.response).toBe('{"result":"0x1"}')
+    expect(relay.session).toBe(RENEWED_SESSION)
+    expect(RENEWED_SESSION.nodes).toContain(relay.serviceNode)
+    expect(relay.attempts.map(({ error }) => error)).toEqual([
+      'OutOfSyncRequestError',
+      undefined,
+    ])
+    expect(provider.dispatch).toHaveBeenCalledWith(
+      {
+        sessionHeader: expect.objectContaining({ sessionBlockHeight: 105 }),
+      },
+      expect.anything()
+    )
+    expect(onSessionRenewed).toHaveBeenCalledWith({
+      previousSession: SESSION,
+      session: RENEWED_SESSION,
+      error: expect.objectContaining({ name: 'OutOfSyncRequestError' }),
+    })
+    expect(
+      await relayer.getSession({
+        applicationPubKey: APP_PUB_KEY,
+        chain: '0021',
+      })
+    ).toBe(RENEWED_SESSION)
+  })
+
+  it('Gives up after a single renewal', async () => {
+    const { provider, relayer } = mockRenewingRelayer([
+      outOfSync(),
+      outOfSync(),
+    ])
+
+    const error = await relayer.relay(RELAY_PARAMS).catch((err) => err)
+
+    expect(error.name).toBe('OutOfSyncRequestError')
+    expect(error.attempts).toHaveLength(2)
+    expect(provider.relay).toHaveBeenCalledTimes(2)
+    expect(provider.dispatch).toHaveBeenCalledTimes(1)
+    expect(provider.dispatch).toHaveBeenCalledWith(
+      { sessionHeader: expect.objectContaining({ sessionBlockHeight: 0 }) },
+      expect.anything()
+    )
+  })
+})
+
+describe('Relayer: hook tests', () => {
+  function mockHookedRelayer(failures: Record<string, () => Error>) {
+    const { provider, relayer } = mockRelayer(failures)
+    const events: [string, any][] = []
+    const hookedRelayer = new Relayer({
+      keyManager: relayer.keyManager,
+      provider: provider as any,
+      hooks: {
+        onRequest: (event) => events.push(['request', event]),
+        onResponse: (event) => events.push(['response', event]),
+        onRetry: (event) => events.push(['retry', event]),
+        onRelayError: (event) => events.push(['relayError', event]),
+      },
+    })
+
+    return { events, relayer: hookedRelayer }
+  }
+
+  it('Reports relays, failed servicers and retries', async () => {
+    const { events, relayer } = mockHookedRelayer({
+      'http://node-1': timeoutError,
+    })
+
+    await relayer.relay({
+      ...RELAY_PARAMS,
+      node: SESSION.nodes[0],
+      options: { maxNodeAttempts: 2 },
+    })
+
+    expect(events.map(([hook]) => hook)).toEqual([
+      'request',
+      'relayError',
+      'retry',
+      'request',
+      'response',
+    ])
+    expect(events[1][1]).toMatchObject({
+      route: '/v1/client/relay',
+      url: 'http://node-1',
+      attempt: 1,
+      node: SESSION.nodes[0],
+      error: 'TimeoutError',
+    })
+    expect(events[2][1]).toMatchObject({ url: 'http://node-1', delay: 0 })
+    expect(events[4][1]).toMatchObject({ attempt: 2 })
+    expect(typeof events[4][1].latency).toBe('number')
+  })
+
+  it('Counts each relay once when sharing a collector with the provider', async () => {
+    const metrics = new MetricsCollector()
+    const { relayer } = mockRelayer({})
+    const provider = new BaseProvider({
+      rpcUrl: 'http://localhost:8081',
+      transport: {
+        send: async (url) => {
+          if (url.startsWith('http://node-1')) {
+            throw new TypeError('fetch failed')
+          }
+          return {
+            ok: true,
+            status: 200,
+            json: async () => ({
+              response: '{"result":"0x1"}',
+              signature: 'servicer-signature',
+            }),
+            text: async () => '',
+          }
+        },
+      },
+      retryPolicy: { maxAttempts: 1 },
+      hooks: metrics.hooks,
+    })
+    const sharedRelayer = new Relayer({
+      keyManager: relayer.keyManager,
+      provider,
+      hooks: metrics.hooks,
+    })
+
+    await sharedRelayer.relay({
+      ...RELAY_PARAMS,
+      node: SESSION.nodes[0],
+      options: { maxNodeAttempts: 2 },
+    })
+
+    const output = metrics.render()
+    const count = (series: string) =>
+      output
+        .split('\n')
+        .filter((line) => line.startsWith(series))
+        .reduce((total, line) => total + Number(line.split(' ').pop()), 0)
+    expect(count('pocketjs_requests_total{')).toBe(2)
+    expect(count('pocketjs_request_duration_seconds_count{')).toBe(2)
+    expect(count('pocketjs_relays_total{')).toBe(2)
+    expect(count('pocketjs_relay_duration_seconds_count{')).toBe(2)
+    expect(count('pocketjs_relay_errors_total{')).toBe(1)
+    expect(output).toContain(
+      'pocketjs_relays_total{url="http://node-1",result="RelayFailureError"} 1'
+    )
+  })
+
+  it('Does not fail relays when a hook throws', async () => {
+    const { provider, relayer } = mockRelayer({})
+    const hookedRelayer = new Relayer({
+      keyManager: relayer.keyManager,
+      provider: provider as any,
+      hooks: {
+        onResponse: () => {
+          throw new Error('broken hook')
+        },
+      },
+    })
+
+    const relay = await hookedRelayer.relay(RELAY_PARAMS)
+
+    expect(relay.response).toBe('{"result":"0x1"}')
+  })
+})
+
+function mockGatewayRelayer(outcomes: (string | number | Error)[] = []) {
+  const requests: { url: string; request: any }[] = []
+  let outcome: string | Error = ''
+  const transport = {
+    send: jest.fn(async (url: string, request: any) => {
+      requests.push({ url, request })
+      const next = outcomes.length ? outcomes.shift() : outcome
+      if (next instanceof Error) {
+        throw next
+      }
+      const status = typeof next === 'number' ? next : 200
+      return {
+        ok: status === 200,
+        status,
+        json: async () => JSON.parse(String(next)),
+        text: async () => String(next),
+      }
+    }),
+  }
+  const relayer = new GatewayRelayer({
+    gatewayUrls: {
+      '0021': 'https://eth-mainnet.gateway.pokt.network/v1/lb/id',
+    },
+    headers: { 'X-Api-Key': 'key' },
+    transport,
+    retryPolicy: { baseDelay: 0 },
+  })
+
+  return {
+    relayer,
+    requests,
+    respondWith: (next: string | Error) => {
+      outcome = next
+    },
+    received: () =>
+      requests.map(({ url, request }) => ({
+        data: request.body,
+        method: request.method,
+        path: url.replace(
+          'https://eth-mainnet.gateway.pokt.network/v1/lb/id',
+          ''
+        ),
+        headers: request.headers,
+      })),
+  }
+}
+
+describeRelayer('GatewayRelayer', () => mockGatewayRelayer())
+
+describe('GatewayRelayer tests', () => {
+  it('Posts to the gateway of the chain, with the configured headers', async () => {
+    const { relayer, requests } = mockGatewayRelayer(['{"result":"0x1"}'])
+
+    const relay = await relayer.relay({ blockchain: '0021', data: '{}' })
+
+    expect(relay).toEqual({ response: '{"result":"0x1"}', status: 200 })
+    expect(requests[0].url).toBe(
+      'https://eth-mainnet.gateway.pokt.network/v1/lb/id'
+    )
+    expect(requests[0].request.method).toBe('POST')
+    expect(requests[0].request.headers['X-Api-Key']).toBe('key')
+  })
+
+  it('Sends GET relays without a body', async () => {
+    const { relayer, requests } = mockGatewayRelayer(['{}'])
+
+    await relayer.relay({
+      blockchain: '0021',
+      data: '',
+      method: HTTPMethod.GET,
+      path: '/v1/query/height',
+    })
+
+    expect(requests[0].request.method).toBe('GET')
+    expect(requests[0].request.body).toBeUndefined()
+  })
+
+  it('Rejects chains without a gateway url', async () => {
+    const { relayer, requests } = mockGatewayRelayer()
+
+    await expect(
+      relayer.relay({ blockchain: '0001', data: '{}' })
+    ).rejects.toBeInstanceOf(UnsupportedBlockchainError)
+    expect(requests).toHaveLength(0)
+  })
+
+  it('Retries retryable statuses as per the retry policy', async () => {
+    const { relayer, requests } = mockGatewayRelayer([503, '{"result":"0x1"}'])
+
+    const relay = await relayer.relay({
+      blockchain: '0021',
+      data: '{}',
+      options: { retryPolicy: { maxAttempts: 2 } },
+    })
+
+    expect(relay.response).toBe('{"result":"0x1"}')
+    expect(requests).toHaveLength(2)
+  })
+
+  it('Throws the status and body of failed relays', async () => {
+    const { relayer } = mockGatewayRelayer([401])
+
+    const error = await relayer
+      .relay({ blockchain: '0021', data: '{}' })
+      .catch((err) => err)
+
+    expect(error).toBeInstanceOf(GatewayRelayError)
+    expect(error.status).toBe(401)
+    expect(error.body).toBe('401')
+  })
+
+  it('Sends binary data as is', async () => {
+    const { relayer, requests } = mockGatewayRelayer(['{}'])
+    const data = new Uint8Array([0xff, 0x00, 0x80])
+
+    await relayer.relay({ blockchain: '0021', data, method: HTTPMethod.PATCH })
+
+    expect(requests[0].request.method).toBe('PATCH')
+    expect(requests[0].request.body).toBe(data)
+    expect(requests[0].request.headers['Content-Type']).toBe(
+      'application/octet-stream'
+    )
+  })
+
+  it('Lets relay headers override the default ones, whatever their case', async () => {
+    const { relayer, requests } = mockGatewayRelayer(['{}'])
+
+    await relayer.relay({
+      blockchain: '0021',
+      data: 'query { height }',
+      headers: { 'content-type': 'application/graphql', 'x-api-key': 'other' },
+    })
+
+    expect(requests[0].request.headers).toEqual({
+      'content-type': 'application/graphql',
+      'x-api-key': 'other',
+    })
+  })
+
+  it('Has no sessions to get', async () => {
+    const { relayer } = mockGatewayRelayer()
+
+    await expect(relayer.getNewSession()).rejects.toMatchObject({
+      name: 'UnsupportedOperationError',
+    })
+  })
+})
+
+describe('Relayer: AAT tests', () => {
+  async function generateAAT() {
+    const app = await KeyManager.createRandom()
+    const client = await KeyManager.createRandom()
+    return Relayer.GenerateAAT(app, client.getPublicKey())
+  }
+
+  it('Verifies the application signature of AATs', async () => {
+    const aat = await generateAAT()
+    const other = await generateAAT()
+
+    expect(await verifyAAT(aat)).toBe(true)
+    expect(
+      await verifyAAT({ ...aat, clientPublicKey: other.clientPublicKey })
+    ).toBe(false)
+    expect(
+      await verifyAAT({ ...aat, applicationSignature: 'not-a-signature' })
+    ).toBe(false)
+  })
+
+  it('Only accepts supported versions', async () => {
+    const aat = await generateAAT()
+
+    expect(() => validateAAT({ ...aat, version: '0.0.2' })).toThrow(
+      InvalidAATError
+    )
+    expect(() => validateAAT({ ...aat, version: '' })).toThrow(
+      'The AAT has no version'
+    )
+    expect(await verifyAAT({ ...aat, version: '0.0.2' })).toBe(false)
+  })
+
+  it('Encodes AATs into compact strings and back', async () => {
+    const aat = await generateAAT()
+
+    const encoded = encodeAAT(aat)
+
+    expect(encoded).toMatch(/^0\.0\.1\.[A-Za-z0-9_-]+$/)
+    expect(encoded.length).toBeLessThan(200)
+    expect(decodeAAT(encoded)).toEqual(aat)
+  })
+
+  it('Rejects uppercase AATs rather than changing them on a round trip', async () => {
+    const aat = await generateAAT()
+    const uppercase = {
+      ...aat,
+      applicationPublicKey: aat.applicationPublicKey.toUpperCase(),
+    }
+
+    expect(() => validateAAT(uppercase)).toThrow(
+      'The application public key of the AAT is not a valid public key'
+    )
+    expect(() => encodeAAT(uppercase)).toThrow(InvalidAATError)
+    expect(await verifyAAT(uppercase)).toBe(false)
+    expect(decodeAAT(encodeAAT(aat))).toEqual(aat)
+    expect(await verifyAAT(decodeAAT(encodeAAT(aat)))).toBe(true)
+  })
+
+  it('Rejects malformed encoded AATs', async () => {
+    const encoded = encodeAAT(await generateAAT())
+
+    expect(() => decodeAAT('garbage')).toThrow(InvalidAATError)
+    expect(() => decodeAAT(encoded.slice(0, -4))).toThrow(InvalidAATError)
+    expect(() => decodeAAT(encoded.replace('0.0.1', '9.9.9'))).toThrow(
+      'Unsupported AAT version'
+    )
+  })
+})
+
+describe('Relayer: cancellation tests', () => {
+  it('Passes the signal on to the servicer', async () => {
+    const { provider, relayer } = mockRelayer({})
+    const controller = new AbortController()
+
+    await relayer.relay({
+      ...RELAY_PARAMS,
+      options: { signal: controller.signal },
+    })
+
+    expect(provider.relay).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(String),
+      expect.objectContaining({ signal: controller.signal })
+    )
+  })
+
+  it('Does not move on to other servicers once aborted', async () => {
+    const controller = new AbortController()
+    const { provider, relayer } = mockRelayer({
+      'http://node-1': () => {
+        controller.abort()
+        return timeoutError()
+      },
+    })
+
+    const error = await relayer
+      .relay({
+        ...RELAY_PARAMS,
+        node: SESSION.nodes[0],
+        options: { maxNodeAttempts: 3, signal: controller.signal },
+      })
+      .catch((err) => err)
+
+    expect(error.attempts).toHaveLength(1)
+    expect(provider.relay).toHaveBeenCalledTimes(1)
+  })
+
+  it('Does not dispatch for relays aborted already', async () => {
+    const { relayer } = mockContractRelayer({}, POCKET_AAT)
+    const provider = relayer.provider as any
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      relayer.relay({
+        blockchain: '0021',
+        data: '{}',
+        options: { signal: controller.signal },
+      })
+    ).rejects.toBeInstanceOf(RequestAbortedError)
+    expect(provider.dispatch).not.toHaveBeenCalled()
+    expect(provider.relay).not.toHaveBeenCalled()
+  })
+
+  it('Stops waiting on a shared dispatch without cancelling it', async () => {
+    const { provider } = mockSessionProvider({
+      height: 103,
+      sessionBlockHeight: 101,
+    })
+    const sessionManager = new SessionManager({ provider: provider as any })
+    const controller = new AbortController()
+
+    const abortedSession = sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+      options: { signal: controller.signal },
+    })
+    const session = sessionManager.getSession({
+      applicationPubKey: APP_PUB_KEY,
+      chain: '0021',
+    })
+    controller.abort()
+
+    await expect(abortedSession).rejects.toBeInstanceOf(RequestAbortedError)
+    expect((await session).header.sessionBlockHeight).toBe(101)
+    expect(provider.dispatch).toHaveBeenCalledTimes(1)
+    expect(provider.dispatch).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.not.objectContaining({ signal: expect.anything() })
+    )
+  })
+
+  it('Aborts gateway relays in flight', async () => {
+    const transport = {
+      send: jest.fn(
+        (url: string, request: any) =>
+          new Promise((resolve, reject) =>
+            request.signal.addEventListener('abort', () => {
+              const error = new Error('The operation was aborted')
+              error.name = 'AbortError'
+              reject(error)
+            })
+          )
+      ),
+    }
+    const relayer = new GatewayRelayer({
+      gatewayUrls: { '0021': 'https://eth-mainnet.gateway.pokt.network' },
+      transport: transport as any,
+      retryPolicy: { maxAttempts: 3, baseDelay: 0 },
+    })
+    const controller = new AbortController()
+
+    const relay = relayer.relay({
+      blockchain: '0021',
+      data: '{}',
+      options: { signal: controller.signal },
+    })
+    controller.abort()
+
+    await expect(relay).rejects.toBeInstanceOf(RequestAbortedError)
+    expect(transport.send).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('Relayer: relay payload tests', () => {
+  it('Encodes query parameters', () => {
+    expect(
+      encodeQuery({ q: 'a&b=c', n: 1, flag: false, none: null, ids: [1, 2] })
+    ).toBe('q=a%26b%3Dc&n=1&flag=false&ids=1&ids=2')
+    expect(buildRelayPath('/v1/query', {})).toBe('/v1/query')
+    expect(buildRelayPath('', { height: 1 })).toBe('?height=1')
+  })
+
+  it('Merges headers case-insensitively', () => {
+    expect(
+      mergeHeaders(
+        { 'Content-Type': 'application/json', Accept: '*/*' },
+        null,
+        { 'content-type': 'text/plain' }
+      )
+    ).toEqual({ Accept: '*/*', 'content-type': 'text/plain' })
+  })
+
+  it('Relays binary data that is valid UTF-8', async () => {
+    const { relayer, received } = mockContractRelayer({}, POCKET_AAT)
+    const data = new TextEncoder().encode('{"name":"pokt ✓"}')
+
+    await relayer.relay({ blockchain: '0021', data, session: SESSION })
+
+    expect(received()[0].data).toBe('{"name":"pokt ✓"}')
+  })
+
+  it('Rejects binary data that is not valid UTF-8', async () => {
+    const { relayer } = mockContractRelayer({}, POCKET_AAT)
+    const provider = relayer.provider as any
+
+    expect(() => toRelayData(new Uint8Array([0xff, 0xfe]))).toThrow(
+      InvalidRelayDataError
+    )
+    await expect(
+      relayer.relay({
+        blockchain: '0021',
+        data: new Uint8Array([0xc3, 0x28]),
+        session: SESSION,
+      })
+    ).rejects.toBeInstanceOf(InvalidRelayDataError)
+    expect(provider.relay).not.toHaveBeenCalled()
+  })
+
+  it('Reads the upstream status of failed executions', () => {
+    const executionError = (message: string) => ({
+      error: { code: PocketCoreErrorCodes.HTTPExecutionError, message },
+    })
+
+    expect(() =>
+      validateRelayResponse(
+        executionError('HTTP status code returned not okay: 503')
+      )
+    ).toThrow(
+      expect.objectContaining({ name: 'HTTPExecutionError', status: 503 })
+    )
+    expect(() =>
+      validateRelayResponse(executionError('connection refused'))
+    ).toThrow(expect.objectContaining({ status: undefined }))
+  })
+})
@@ -59,6 +59,43 @@ export class KeyManager implements AbstractSigner {
     ).toString('hex')
   }
 
+  /**
+   * Verifies an ED25519 signature over a hex-string payload.
+   * @param {string} payload - The hex payload that was signed.
+   * @param {string} signature - The signature, as a hex string.
+   * @param {string} publicKey - The public key of the account that supposedly signed the payload.
+   * @returns {boolean} - Whether the signature is valid. Malformed inputs are reported as invalid.
+   * */
+  static async verifySignature({
+    payload,
+    signature,
+    publicKey,
+  }: {
+    payload: string
+    signature: string
+    publicKey: string
+  }): Promise<boolean> {
+    await Sodium.ready
+    if (
+      !HEX_REGEX.test(signature) ||
+      !HEX_REGEX.test(publicKey) ||
+      signature.length !== Sodium.crypto_sign_BYTES * 2 ||
+      publicKey.length !== Sodium.crypto_sign_PUBLICKEYBYTES * 2
+    ) {
+      return false
+    }
+
+    try {
+      return Sodium.crypto_sign_verify_detached(
+        Buffer.from(signature, 'hex'),
+        Buffer.from(payload, 'hex'),
+        Buffer.from(publicKey, 'hex')
+      )
+    } catch (err) {
+      return false
+    }
+  }
+
   /**
    * Creates a new, random Pocket account.
    * @returns {KeyManager} - A new Key Manager instance with the account attached.
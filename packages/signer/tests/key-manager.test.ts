@@ -22,6 +22,18 @@ describe('Signer: Key Manager tests', () => {
 
     expect(signedMessage).toBe(SIGNED_MESSAGE)
   })
+  it('Verifies signatures against the signer public key', async () => {
+    const verify = (payload: string, signature: string, publicKey: string) =>
+      KeyManager.verifySignature({ payload, signature, publicKey })
+    const otherKeyManager = await KeyManager.createRandom()
+
+    expect(await verify('deadbeef', SIGNED_MESSAGE, PUBLIC_KEY)).toBe(true)
+    expect(await verify('cafebabe', SIGNED_MESSAGE, PUBLIC_KEY)).toBe(false)
+    expect(
+      await verify('deadbeef', SIGNED_MESSAGE, otherKeyManager.getPublicKey())
+    ).toBe(false)
+    expect(await verify('deadbeef', 'not-a-signature', PUBLIC_KEY)).toBe(false)
+  })
   it('Exports a PPK without failure and re-imports it', async () => {
     const ppk = await KeyManager.exportPPK({
       privateKey: PRIVATE_KEY,
@@ -0,0 +1,106 @@
+import { Buffer } from 'buffer'
+import { KeyManager } from '@pokt-foundation/pocketjs-signer'
+import { Transaction } from '@pokt-foundation/pocketjs-types'
+import { getAddressFromPublicKey } from '@pokt-foundation/pocketjs-utils'
+import { DecodedStdTx, ProtoTxDecoder } from './factory/proto-tx-decoder'
+import { TxEncoderFactory } from './factory/tx-encoder-factory'
+import { CoinDenom } from './models/coin-denom'
+import { MultiSigPublicKey } from './models/multi-sig'
+import { ProtoStdTx } from './models/proto/generated/tx-signer'
+import { ChainID } from './abstract-tx-builder'
+
+/**
+ * A transaction, as returned by the provider, along with its decoded content.
+ */
+export interface DecodedTransaction extends DecodedStdTx {
+  hash: string
+  height: number
+  index: number
+  tx_result: Transaction['tx_result']
+  // The address of the account that signed the transaction.
+  signer?: string
+  // Whether the signature matches the transaction on the given chain.
+  isSignatureValid: boolean
+}
+
+/**
+ * Verifies the signature of a transaction, by recreating the document its
+ * sender signed from the message as it was encoded.
+ * @param {ProtoStdTx} stdTx - The transaction, as unmarshaled by `ProtoTxDecoder.unmarshalStdTx`.
+ * @param {ChainID} chainID - The chain the transaction was sent to.
+ * @returns {Promise<boolean>} - Whether the signature is valid. Transactions
+ * without a signature, or whose message can't be decoded, are reported as invalid.
+ * */
+export async function verifyStdTxSignature(
+  stdTx: ProtoStdTx,
+  chainID: ChainID
+): Promise<boolean> {
+  const [fee] = stdTx.fee
+  if (!stdTx.signature || !stdTx.msg || !fee || stdTx.fee.length > 1) {
+    return false
+  }
+
+  let signDoc: Buffer
+  try {
+    signDoc = TxEncoderFactory.createEncoder(
+      stdTx.entropy.toString(),
+      chainID,
+      new ProtoTxDecoder().toTxMsg(stdTx.msg.typeUrl, stdTx.msg.value),
+      fee.amount,
+      fee.denom === 'pokt' ? CoinDenom.Pokt : CoinDenom.Upokt,
+      stdTx.memo
+    ).marshalStdSignDoc()
+  } catch (err) {
+    return false
+  }
+
+  const { publicKey, Signature } = stdTx.signature
+  // Multisig accounts sign with their amino encoded public key.
+  if (publicKey.length !== 32) {
+    try {
+      return await MultiSigPublicKey.fromBytes(publicKey).verifySignature(
+        signDoc.toString('hex'),
+        Signature
+      )
+    } catch (err) {
+      return false
+    }
+  }
+
+  return KeyManager.verifySignature({
+    payload: signDoc.toString('hex'),
+    signature: Buffer.from(Signature).toString('hex'),
+    publicKey: Buffer.from(publicKey).toString('hex'),
+  })
+}
+
+/**
+ * Decodes a transaction returned by `getTransaction` or `getBlockTransactions`
+ * into its typed message, and verifies its signature.
+ * @param {Transaction} transaction - The transaction, as returned by the provider.
+ * @param {ChainID} chainID - The chain the transaction was sent to.
+ * @returns {Promise<DecodedTransaction>} - The decoded transaction.
+ * @throws {UnsupportedTxMsgError} - If the message type can't be decoded.
+ * */
+export async function decodeTransaction(
+  transaction: Transaction,
+  chainID: ChainID
+): Promise<DecodedTransaction> {
+  const decoder = new ProtoTxDecoder()
+  const protoStdTx = decoder.unmarshalStdTx(
+    Buffer.from(transaction.tx, 'base64')
+  )
+  const stdTx = decoder.decodeStdTxData(protoStdTx)
+
+  return {
+    hash: transaction.hash,
+    height: transaction.height,
+    index: transaction.index,
+    tx_result: transaction.tx_result,
+    ...stdTx,
+    signer: stdTx.signature
+      ? await getAddressFromPublicKey(stdTx.signature.publicKey)
+      : undefined,
+    isSignatureValid: await verifyStdTxSignature(protoStdTx, chainID),
+  }
+}
@@ -21,3 +21,35 @@ export class NoSignerError extends Error {
     this.name = 'NoSignerError'
   }
 }
+
+export class UnsupportedTxMsgError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'UnsupportedTxMsgError'
+  }
+}
+
+export class InvalidMultiSigError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidMultiSigError'
+  }
+}
+
+export class InvalidUnsignedTransactionError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidUnsignedTransactionError'
+  }
+}
+
+export class InvalidTxSignatureError extends Error {
+  constructor(message: string, ...params: any[]) {
+    super(...params)
+    this.message = message
+    this.name = 'InvalidTxSignatureError'
+  }
+}
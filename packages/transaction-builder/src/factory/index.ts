@@ -2,3 +2,4 @@ export * from './base-tx-encoder'
 export * from './proto-tx-decoder'
 export * from './proto-tx-encoder'
 export * from './tx-encoder-factory'
+export * from './unsigned-transaction'
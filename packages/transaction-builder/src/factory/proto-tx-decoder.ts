@@ -1,6 +1,171 @@
-/* eslint-disable no-case-declarations */
 import { Buffer } from 'buffer'
-import { MsgSend, ProtoStdTx } from '../models/proto/generated/tx-signer'
+import * as varint from 'varint'
+import { DAOAction } from '../models/gov'
+import { TxMsg } from '../models/msgs'
+import { Any } from '../models/proto/generated/google/protobuf/any'
+import {
+  Coin,
+  MsgBeginNodeUnstake8,
+  MsgBeginUnstake,
+  MsgChangeParam,
+  MsgDAOTransfer,
+  MsgNodeUnjail8,
+  MsgProtoNodeStake8,
+  MsgProtoStake,
+  MsgSend,
+  MsgUnjail,
+  MsgUpgrade,
+  ProtoStdTx,
+} from '../models/proto/generated/tx-signer'
+import { UnsupportedTxMsgError } from '../errors'
+
+interface DecodedMsg<T extends string, V> {
+  type: T
+  typeUrl: string
+  value: V
+}
+
+export type DecodedSendMsg = DecodedMsg<
+  'Send',
+  { amount: string; FromAddress: string; ToAddress: string }
+>
+
+export type DecodedAppStakeMsg = DecodedMsg<
+  'AppStake',
+  { pubKey: string; chains: string[]; amount: string }
+>
+
+// App transfers are app stakes without chains nor amount.
+export type DecodedAppTransferMsg = DecodedMsg<
+  'AppTransfer',
+  { pubKey: string }
+>
+
+export type DecodedAppUnstakeMsg = DecodedMsg<
+  'AppUnstake',
+  { appAddress: string }
+>
+
+export type DecodedAppUnjailMsg = DecodedMsg<'AppUnjail', { address: string }>
+
+export type DecodedNodeStakeMsg = DecodedMsg<
+  'NodeStake',
+  {
+    pubKey: string
+    chains: string[]
+    amount: string
+    serviceURL: string
+    outputAddress: string
+    rewardDelegators: { [address: string]: number }
+  }
+>
+
+export type DecodedNodeUnstakeMsg = DecodedMsg<
+  'NodeUnstake',
+  { nodeAddress: string; signerAddress: string }
+>
+
+export type DecodedNodeUnjailMsg = DecodedMsg<
+  'NodeUnjail',
+  { nodeAddress: string; signerAddress: string }
+>
+
+export type DecodedGovDAOTransferMsg = DecodedMsg<
+  'GovDAOTransfer',
+  { fromAddress: string; toAddress: string; amount: string; action: DAOAction }
+>
+
+export type DecodedGovChangeParamMsg = DecodedMsg<
+  'GovChangeParam',
+  { fromAddress: string; paramKey: string; paramValue: string }
+>
+
+export type DecodedGovUpgradeMsg = DecodedMsg<
+  'GovUpgrade',
+  {
+    fromAddress: string
+    upgrade: {
+      height: number
+      version: string
+      oldUpgradeHeight: number
+      features: string[]
+    }
+  }
+>
+
+export type DecodedTxMsg =
+  | DecodedSendMsg
+  | DecodedAppStakeMsg
+  | DecodedAppTransferMsg
+  | DecodedAppUnstakeMsg
+  | DecodedAppUnjailMsg
+  | DecodedNodeStakeMsg
+  | DecodedNodeUnstakeMsg
+  | DecodedNodeUnjailMsg
+  | DecodedGovDAOTransferMsg
+  | DecodedGovChangeParamMsg
+  | DecodedGovUpgradeMsg
+
+export interface DecodedStdTx {
+  memo: string
+  entropy: number
+  fee: Coin[]
+  msg: DecodedTxMsg
+  signature?: {
+    publicKey: string
+    Signature: string
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex')
+}
+
+// App unjails carry the address as text rather than as raw address bytes.
+function decodeAddressText(bytes: Uint8Array): string {
+  return bytes.length === 20
+    ? toHex(bytes)
+    : Buffer.from(bytes).toString('utf8')
+}
+
+// Param values are set as JSON, which for most params is a plain string.
+function decodeParamValue(bytes: Uint8Array): string {
+  const raw = Buffer.from(bytes).toString('utf8')
+  try {
+    const value = JSON.parse(raw)
+    return typeof value === 'string' ? value : raw
+  } catch (err) {
+    return raw
+  }
+}
+
+/**
+ * A transaction message recreated from its encoded bytes.
+ */
+class EncodedTxMsg extends TxMsg {
+  public readonly typeUrl: string
+  public readonly value: Uint8Array
+  public readonly stdSignDocMsg: object
+
+  public constructor(
+    typeUrl: string,
+    value: Uint8Array,
+    stdSignDocMsg: object
+  ) {
+    super()
+    this.typeUrl = typeUrl
+    this.value = value
+    this.stdSignDocMsg = stdSignDocMsg
+  }
+
+  public toStdSignDocMsgObj(): object {
+    return this.stdSignDocMsg
+  }
+
+  public toStdTxMsgObj(): any {
+    return Any.fromPartial({ typeUrl: this.typeUrl, value: this.value })
+  }
+}
 
 export class ProtoTxDecoder {
   // Returns partially decoded transaction
@@ -8,42 +173,314 @@ export class ProtoTxDecoder {
     encodedTxBytes: Buffer,
     length: number = encodedTxBytes.length
   ): ProtoStdTx {
-    return ProtoStdTx.decode(encodedTxBytes.subarray(2), length - 2)
+    // Transactions are prefixed with their length, as a varint.
+    varint.decode(encodedTxBytes)
+    const prefixLength = varint.decode.bytes
+    return ProtoStdTx.decode(
+      encodedTxBytes.subarray(prefixLength),
+      length - prefixLength
+    )
+  }
+
+  // Returns the fully decoded transaction
+  public decodeStdTx(encodedTxBytes: Buffer): DecodedStdTx {
+    return this.decodeStdTxData(this.unmarshalStdTx(encodedTxBytes))
   }
 
   // Returns decoded transaction message data
-  public decodeStdTxData(protoStdTx: ProtoStdTx) {
-    switch (protoStdTx.msg?.typeUrl) {
-      case '/x.nodes.MsgSend':
-        const msgSendData = MsgSend.decode(protoStdTx.msg.value)
-
-        const decodedStdTxData = {
-          memo: protoStdTx.memo,
-          entropy: protoStdTx.entropy,
-          fee: protoStdTx.fee,
-          msg: {
-            typeUrl: protoStdTx.msg.typeUrl,
-            value: {
-              amount: msgSendData.amount,
-              FromAddress: Buffer.from(msgSendData.FromAddress).toString('hex'),
-              ToAddress: Buffer.from(msgSendData.ToAddress).toString('hex'),
+  public decodeStdTxData(protoStdTx: ProtoStdTx): DecodedStdTx {
+    if (!protoStdTx.msg) {
+      throw new UnsupportedTxMsgError('The transaction holds no message.')
+    }
+
+    return {
+      memo: protoStdTx.memo,
+      entropy: protoStdTx.entropy,
+      fee: protoStdTx.fee,
+      msg: this.decodeMsg(protoStdTx.msg.typeUrl, protoStdTx.msg.value),
+      signature: protoStdTx.signature
+        ? {
+            publicKey: toHex(protoStdTx.signature.publicKey),
+            Signature: toHex(protoStdTx.signature.Signature),
+          }
+        : protoStdTx.signature,
+    }
+  }
+
+  /**
+   * Decodes a transaction message, as encoded by the TxMsg of its type.
+   * @param {string} typeUrl - The type of the message e.g "/x.nodes.MsgSend".
+   * @param {Uint8Array} value - The encoded message.
+   * @returns {DecodedTxMsg} - The message, told apart by its type.
+   * @throws {UnsupportedTxMsgError} - If messages of this type can't be decoded.
+   * */
+  public decodeMsg(typeUrl: string, value: Uint8Array): DecodedTxMsg {
+    switch (typeUrl) {
+      case '/x.nodes.MsgSend': {
+        const msg = MsgSend.decode(value)
+        return {
+          type: 'Send',
+          typeUrl,
+          value: {
+            amount: msg.amount,
+            FromAddress: toHex(msg.FromAddress),
+            ToAddress: toHex(msg.ToAddress),
+          },
+        }
+      }
+      case '/x.apps.MsgProtoStake': {
+        const msg = MsgProtoStake.decode(value)
+        if (!msg.chains.length && Number(msg.value || 0) === 0) {
+          return {
+            type: 'AppTransfer',
+            typeUrl,
+            value: { pubKey: toHex(msg.pubKey) },
+          }
+        }
+        return {
+          type: 'AppStake',
+          typeUrl,
+          value: {
+            pubKey: toHex(msg.pubKey),
+            chains: msg.chains,
+            amount: msg.value,
+          },
+        }
+      }
+      case '/x.apps.MsgBeginUnstake': {
+        const msg = MsgBeginUnstake.decode(value)
+        return {
+          type: 'AppUnstake',
+          typeUrl,
+          value: { appAddress: toHex(msg.Address) },
+        }
+      }
+      case 'x.nodes.MsgUnjail': {
+        const msg = MsgUnjail.decode(value)
+        return {
+          type: 'AppUnjail',
+          typeUrl,
+          value: { address: decodeAddressText(msg.AppAddr) },
+        }
+      }
+      case '/x.nodes.MsgProtoStake8': {
+        const msg = MsgProtoNodeStake8.decode(value)
+        return {
+          type: 'NodeStake',
+          typeUrl,
+          value: {
+            pubKey: toHex(msg.Publickey),
+            chains: msg.Chains,
+            amount: msg.value,
+            serviceURL: msg.ServiceUrl,
+            outputAddress: toHex(msg.OutAddress),
+            rewardDelegators: msg.RewardDelegators,
+          },
+        }
+      }
+      case '/x.nodes.MsgBeginUnstake8': {
+        const msg = MsgBeginNodeUnstake8.decode(value)
+        return {
+          type: 'NodeUnstake',
+          typeUrl,
+          value: {
+            nodeAddress: toHex(msg.Address),
+            signerAddress: toHex(msg.Signer),
+          },
+        }
+      }
+      case '/x.nodes.MsgUnjail8': {
+        const msg = MsgNodeUnjail8.decode(value)
+        return {
+          type: 'NodeUnjail',
+          typeUrl,
+          value: {
+            nodeAddress: toHex(msg.ValidatorAddr),
+            signerAddress: toHex(msg.Signer),
+          },
+        }
+      }
+      case '/x.gov.MsgDAOTransfer': {
+        const msg = MsgDAOTransfer.decode(value)
+        return {
+          type: 'GovDAOTransfer',
+          typeUrl,
+          value: {
+            fromAddress: toHex(msg.fromAddress),
+            toAddress: toHex(msg.toAddress),
+            amount: msg.amount,
+            action: msg.action as DAOAction,
+          },
+        }
+      }
+      case '/x.gov.MsgChangeParam': {
+        const msg = MsgChangeParam.decode(value)
+        return {
+          type: 'GovChangeParam',
+          typeUrl,
+          value: {
+            fromAddress: toHex(msg.FromAddress),
+            paramKey: msg.paramKey,
+            paramValue: decodeParamValue(msg.paramVal),
+          },
+        }
+      }
+      case '/x.gov.MsgUpgrade': {
+        const msg = MsgUpgrade.decode(value)
+        return {
+          type: 'GovUpgrade',
+          typeUrl,
+          value: {
+            fromAddress: toHex(msg.address),
+            upgrade: {
+              height: msg.upgrade?.height ?? 0,
+              version: msg.upgrade?.version ?? '',
+              oldUpgradeHeight: msg.upgrade?.oldUpgradeHeight ?? 0,
+              features: msg.upgrade?.features ?? [],
             },
           },
-          signature: protoStdTx.signature
-            ? {
-                publicKey: Buffer.from(protoStdTx.signature.publicKey).toString(
-                  'hex'
-                ),
-                Signature: Buffer.from(protoStdTx.signature.Signature).toString(
-                  'hex'
-                ),
-              }
-            : protoStdTx.signature,
         }
-
-        return decodedStdTxData
+      }
       default:
-        throw Error('Decoding for transaction type not supported yet.')
+        throw new UnsupportedTxMsgError(
+          `Decoding for transaction type ${typeUrl} not supported yet.`
+        )
+    }
+  }
+
+  /**
+   * Recreates the TxMsg of an encoded message, e.g to recreate the document its
+   * sender signed. The message is kept as it was encoded, without going
+   * through the validations of the TxMsg it was created with.
+   * @param {string} typeUrl - The type of the message e.g "/x.nodes.MsgSend".
+   * @param {Uint8Array} value - The encoded message.
+   * @returns {TxMsg} - The message, signed and encoded as the original.
+   * @throws {UnsupportedTxMsgError} - If messages of this type can't be decoded.
+   * */
+  public toTxMsg(typeUrl: string, value: Uint8Array): TxMsg {
+    return new EncodedTxMsg(
+      typeUrl,
+      value,
+      this.toStdSignDocMsgObj(typeUrl, value)
+    )
+  }
+
+  // Returns the message as set in the sign doc by the TxMsg of its type.
+  private toStdSignDocMsgObj(typeUrl: string, value: Uint8Array): object {
+    const msg = this.decodeMsg(typeUrl, value)
+    switch (msg.type) {
+      case 'Send':
+        return {
+          type: 'pos/Send',
+          value: {
+            amount: msg.value.amount,
+            from_address: msg.value.FromAddress,
+            to_address: msg.value.ToAddress,
+          },
+        }
+      case 'AppStake':
+        return {
+          type: 'apps/MsgAppStake',
+          value: {
+            chains: msg.value.chains,
+            pubkey: {
+              type: 'crypto/ed25519_public_key',
+              value: msg.value.pubKey,
+            },
+            value: msg.value.amount,
+          },
+        }
+      case 'AppTransfer':
+        return {
+          type: 'apps/MsgAppStake',
+          value: {
+            chains: null,
+            pubkey: {
+              type: 'crypto/ed25519_public_key',
+              value: msg.value.pubKey,
+            },
+            value: '0',
+          },
+        }
+      case 'AppUnstake':
+        return {
+          type: 'apps/MsgAppBeginUnstake',
+          value: { application_address: msg.value.appAddress },
+        }
+      case 'AppUnjail':
+        return {
+          type: 'apps/MsgAppUnjail',
+          value: { address: msg.value.address.toLowerCase() },
+        }
+      case 'NodeStake':
+        return {
+          type: 'pos/8.0MsgStake',
+          value: {
+            chains: msg.value.chains,
+            output_address: msg.value.outputAddress,
+            public_key: {
+              type: 'crypto/ed25519_public_key',
+              value: msg.value.pubKey,
+            },
+            service_url: msg.value.serviceURL,
+            value: msg.value.amount,
+            ...(Object.keys(msg.value.rewardDelegators).length > 0 && {
+              reward_delegators: msg.value.rewardDelegators,
+            }),
+          },
+        }
+      case 'NodeUnstake':
+        return {
+          type: 'pos/8.0MsgBeginUnstake',
+          value: {
+            signer_address: msg.value.signerAddress,
+            validator_address: msg.value.nodeAddress,
+          },
+        }
+      case 'NodeUnjail':
+        return {
+          type: 'pos/8.0MsgUnjail',
+          value: {
+            address: msg.value.nodeAddress,
+            signer_address: msg.value.signerAddress,
+          },
+        }
+      case 'GovDAOTransfer':
+        return {
+          type: 'gov/msg_dao_transfer',
+          value: {
+            action: msg.value.action.toString(),
+            amount: msg.value.amount,
+            from_address: msg.value.fromAddress,
+            to_address: msg.value.toAddress,
+          },
+        }
+      case 'GovChangeParam':
+        // The value is signed as it was encoded, which may not be a string.
+        return {
+          type: 'gov/msg_change_param',
+          value: {
+            address: msg.value.fromAddress,
+            param_key: msg.value.paramKey,
+            param_value: Buffer.from(
+              MsgChangeParam.decode(value).paramVal
+            ).toString('base64'),
+          },
+        }
+      case 'GovUpgrade':
+        return {
+          type: 'gov/msg_upgrade',
+          value: {
+            address: msg.value.fromAddress,
+            upgrade: {
+              ...(msg.value.upgrade.features.length > 0 && {
+                Features: msg.value.upgrade.features,
+              }),
+              Height: `${msg.value.upgrade.height}`,
+              Version: msg.value.upgrade.version,
+            },
+          },
+        }
     }
   }
 }
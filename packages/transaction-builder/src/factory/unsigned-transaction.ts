@@ -0,0 +1,192 @@
+import { Buffer } from 'buffer'
+import { AbstractSigner, KeyManager } from '@pokt-foundation/pocketjs-signer'
+import { RawTxRequest } from '@pokt-foundation/pocketjs-types'
+import { getAddressFromPublicKey } from '@pokt-foundation/pocketjs-utils'
+import { BaseTxEncoder } from './base-tx-encoder'
+import { ProtoTxDecoder } from './proto-tx-decoder'
+import { TxEncoderFactory } from './tx-encoder-factory'
+import { CoinDenom } from '../models/coin-denom'
+import { MultiSigPublicKey, PartialSignature } from '../models/multi-sig'
+import { TxSignature } from '../models/tx-signature'
+import {
+  InvalidTxSignatureError,
+  InvalidUnsignedTransactionError,
+} from '../errors'
+
+/**
+ * An unsigned transaction, exported to be signed elsewhere.
+ */
+export interface UnsignedTransactionJSON {
+  // The bytes to sign, as hex.
+  signDoc: string
+  chainID: string
+  entropy: string
+  fee: string
+  feeDenom?: CoinDenom
+  memo: string
+  // The message, as encoded in the transaction.
+  msg: {
+    typeUrl: string
+    value: string
+  }
+}
+
+/**
+ * A transaction waiting for its signatures. Its sign doc can be signed by a
+ * single account, or by every key of a multisig account.
+ */
+export class UnsignedTransaction {
+  public readonly encoder: BaseTxEncoder
+
+  /**
+   * @param {BaseTxEncoder} encoder - The encoder holding the transaction's entropy, chain ID, message, fee and memo.
+   */
+  constructor(encoder: BaseTxEncoder) {
+    this.encoder = encoder
+  }
+
+  /**
+   * Imports an unsigned transaction exported with `toJSON`, e.g on the machine holding the keys to sign it with.
+   * The sign doc is recreated from the transaction, so that what gets signed is what gets sent.
+   * @param {UnsignedTransactionJSON | string} json - The exported transaction, parsed or not.
+   * @returns {UnsignedTransaction} - The transaction, waiting for its signatures.
+   * @throws {InvalidUnsignedTransactionError} - If the transaction is malformed, or its sign doc doesn't match it.
+   */
+  static fromJSON(json: UnsignedTransactionJSON | string): UnsignedTransaction {
+    let exported: UnsignedTransactionJSON
+    let unsignedTx: UnsignedTransaction
+    try {
+      exported = typeof json === 'string' ? JSON.parse(json) : json
+      const { chainID, entropy, fee, feeDenom, memo, msg } = exported
+
+      const txMsg = new ProtoTxDecoder().toTxMsg(
+        msg.typeUrl,
+        Buffer.from(msg.value, 'base64')
+      )
+      unsignedTx = new UnsignedTransaction(
+        TxEncoderFactory.createEncoder(
+          entropy,
+          chainID,
+          txMsg,
+          fee,
+          feeDenom,
+          memo
+        )
+      )
+    } catch (err: any) {
+      throw new InvalidUnsignedTransactionError(
+        `Malformed unsigned transaction: ${err.message}`
+      )
+    }
+
+    if (unsignedTx.getSignDoc() !== exported.signDoc) {
+      throw new InvalidUnsignedTransactionError(
+        'The sign doc does not match the unsigned transaction'
+      )
+    }
+
+    return unsignedTx
+  }
+
+  /**
+   * Exports the transaction, e.g to sign it on another machine.
+   * @returns {UnsignedTransactionJSON} - The sign doc, along with what's needed to recreate the transaction.
+   */
+  public toJSON(): UnsignedTransactionJSON {
+    const { chainID, entropy, fee, feeDenom, memo, msg } = this.encoder
+    const stdTxMsg = msg.toStdTxMsgObj()
+
+    return {
+      signDoc: this.getSignDoc(),
+      chainID,
+      entropy,
+      fee,
+      feeDenom,
+      memo: memo || '',
+      msg: {
+        typeUrl: stdTxMsg.typeUrl,
+        value: Buffer.from(stdTxMsg.value).toString('base64'),
+      },
+    }
+  }
+
+  /**
+   * Gets the bytes every signer of the transaction must sign.
+   * @returns {string} - The sign doc, as hex.
+   */
+  public getSignDoc(): string {
+    return this.encoder.marshalStdSignDoc().toString('hex')
+  }
+
+  /**
+   * Signs the sign doc, e.g with one of the keys of a multisig account.
+   * @param {AbstractSigner} signer - The signer to sign with.
+   * @returns {Promise<PartialSignature>} - The signature, along with the signer's public key.
+   */
+  public async sign(signer: AbstractSigner): Promise<PartialSignature> {
+    return {
+      publicKey: signer.getPublicKey(),
+      signature: await signer.sign(this.getSignDoc()),
+    }
+  }
+
+  /**
+   * Marshals the transaction with the signature of its sender.
+   * @param {string} address - The address of the sender.
+   * @param {TxSignature} signature - The signature over the sign doc.
+   * @returns {RawTxRequest} - A Raw transaction Request which can be sent over the network.
+   */
+  public toRawTxRequest(address: string, signature: TxSignature): RawTxRequest {
+    return new RawTxRequest(
+      address,
+      this.encoder.marshalStdTx(signature).toString('hex')
+    )
+  }
+
+  /**
+   * Marshals the transaction with a signature made elsewhere, e.g by `KeyManager.sign` on an offline machine.
+   * @param {PartialSignature} signature - The signature over the sign doc, along with the signer's public key.
+   * @returns {Promise<RawTxRequest>} - A Raw transaction Request which can be sent over the network.
+   * @throws {InvalidTxSignatureError} - If the signature is not over this transaction's sign doc.
+   */
+  public async toSignedRawTxRequest({
+    publicKey,
+    signature,
+  }: PartialSignature): Promise<RawTxRequest> {
+    const isValid = await KeyManager.verifySignature({
+      payload: this.getSignDoc(),
+      signature,
+      publicKey,
+    })
+    if (!isValid) {
+      throw new InvalidTxSignatureError(
+        `Invalid signature of ${publicKey} over the sign doc`
+      )
+    }
+
+    return this.toRawTxRequest(
+      await getAddressFromPublicKey(publicKey),
+      new TxSignature(
+        Buffer.from(publicKey, 'hex'),
+        Buffer.from(signature, 'hex')
+      )
+    )
+  }
+
+  /**
+   * Assembles the signatures of every key of a multisig account and marshals the transaction.
+   * @param {MultiSigPublicKey} publicKey - The public key of the multisig account sending the transaction.
+   * @param {PartialSignature[]} signatures - The signatures of each key, in any order.
+   * @returns {Promise<RawTxRequest>} - A Raw transaction Request which can be sent over the network.
+   * @throws {InvalidMultiSigError} - If a key didn't sign, or a signature is malformed.
+   */
+  public async toMultiSigRawTxRequest(
+    publicKey: MultiSigPublicKey,
+    signatures: PartialSignature[]
+  ): Promise<RawTxRequest> {
+    return this.toRawTxRequest(
+      await publicKey.getAddress(),
+      publicKey.createSignature(signatures)
+    )
+  }
+}
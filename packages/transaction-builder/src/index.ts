@@ -1,4 +1,6 @@
 export * from './tx-builder'
+export * from './decode-transaction'
+export * from './preflight'
 export * from './errors'
 export * from './models'
 export * from './factory'
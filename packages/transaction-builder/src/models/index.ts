@@ -3,3 +3,4 @@ export * from './coin-denom'
 export * from './transaction-signature'
 export * from './tx-signature'
 export * from './gov'
+export * from './multi-sig'
@@ -0,0 +1,232 @@
+import { Buffer } from 'buffer'
+import * as varint from 'varint'
+import { KeyManager } from '@pokt-foundation/pocketjs-signer'
+import { getAddressFromPublicKey } from '@pokt-foundation/pocketjs-utils'
+import { InvalidMultiSigError } from '../errors'
+import { TxSignature } from './tx-signature'
+
+// Amino prefixes of the types registered by pocket-core:
+// "crypto/ed25519_public_key", "crypto/public_key_multi_signature" and
+// "crypto/multi_signature" respectively.
+const ED25519_PUBLIC_KEY_PREFIX = Buffer.from('9d544774', 'hex')
+const MULTI_SIG_PUBLIC_KEY_PREFIX = Buffer.from('f325b8ad', 'hex')
+const MULTI_SIGNATURE_PREFIX = Buffer.from('b2f515f9', 'hex')
+
+const ED25519_PUBLIC_KEY_LENGTH = 32
+const ED25519_SIGNATURE_LENGTH = 64
+// Field 1, length delimited.
+const REPEATED_FIELD_KEY = 0x0a
+
+/**
+ * The signature of one of the keys of a multisig account.
+ */
+export interface PartialSignature {
+  publicKey: string
+  signature: string
+}
+
+function isHex(str: string, length: number): boolean {
+  return str.length === length * 2 && /^[0-9a-fA-F]+$/.test(str)
+}
+
+function encodeRepeatedBytes(prefix: Buffer, items: Buffer[]): Buffer {
+  return Buffer.concat([
+    prefix,
+    ...items.map((item) =>
+      Buffer.concat([
+        Buffer.from([REPEATED_FIELD_KEY]),
+        Buffer.from(varint.encode(item.length)),
+        item,
+      ])
+    ),
+  ])
+}
+
+function decodeRepeatedBytes(prefix: Buffer, bytes: Buffer): Buffer[] {
+  if (!bytes.subarray(0, prefix.length).equals(prefix)) {
+    throw new InvalidMultiSigError('Unexpected amino prefix')
+  }
+
+  const items: Buffer[] = []
+  let offset = prefix.length
+  while (offset < bytes.length) {
+    if (bytes[offset] !== REPEATED_FIELD_KEY) {
+      throw new InvalidMultiSigError(`Unexpected field key at ${offset}`)
+    }
+    const length = varint.decode(bytes, offset + 1)
+    const start = offset + 1 + varint.decode.bytes
+    if (start + length > bytes.length) {
+      throw new InvalidMultiSigError('Field length out of bounds')
+    }
+    items.push(bytes.subarray(start, start + length))
+    offset = start + length
+  }
+
+  return items
+}
+
+/**
+ * Encodes the signatures of every key of a multisig account, in key order.
+ * @param {Buffer[]} signatures - The signatures.
+ * @returns {Buffer} - The amino encoded multisignature.
+ * */
+export function marshalMultiSignature(signatures: Buffer[]): Buffer {
+  return encodeRepeatedBytes(MULTI_SIGNATURE_PREFIX, signatures)
+}
+
+/**
+ * Decodes a multisignature into the signatures of each key.
+ * @param {Uint8Array} bytes - The amino encoded multisignature.
+ * @returns {Buffer[]} - The signatures, in key order.
+ * @throws {InvalidMultiSigError} - If the bytes aren't a multisignature.
+ * */
+export function unmarshalMultiSignature(bytes: Uint8Array): Buffer[] {
+  return decodeRepeatedBytes(MULTI_SIGNATURE_PREFIX, Buffer.from(bytes))
+}
+
+/**
+ * Model representing the public key of a multisig account in the Pocket Network.
+ * Pocket multisig accounts require a signature from every key, in the order
+ * the keys were given when creating the account.
+ */
+export class MultiSigPublicKey {
+  public readonly publicKeys: string[]
+
+  /**
+   * @param {string[]} publicKeys - The ordered ed25519 public keys of the account, as hex.
+   * @throws {InvalidMultiSigError} - If there are no keys, or a key is malformed or repeated.
+   */
+  constructor(publicKeys: string[]) {
+    if (publicKeys.length === 0) {
+      throw new InvalidMultiSigError('A multisig key needs at least one key')
+    }
+    const keys = publicKeys.map((publicKey) => publicKey.toLowerCase())
+    keys.forEach((publicKey, i) => {
+      if (!isHex(publicKey, ED25519_PUBLIC_KEY_LENGTH)) {
+        throw new InvalidMultiSigError(`Public key ${publicKey} is malformed`)
+      }
+      if (keys.indexOf(publicKey) !== i) {
+        throw new InvalidMultiSigError(`Public key ${publicKey} is repeated`)
+      }
+    })
+
+    this.publicKeys = keys
+  }
+
+  /**
+   * Decodes a multisig public key, e.g from the signature of a transaction.
+   * @param {Uint8Array} bytes - The amino encoded public key.
+   * @returns {MultiSigPublicKey} - The public key.
+   * @throws {InvalidMultiSigError} - If the bytes aren't a multisig public key.
+   */
+  static fromBytes(bytes: Uint8Array): MultiSigPublicKey {
+    const publicKeys = decodeRepeatedBytes(
+      MULTI_SIG_PUBLIC_KEY_PREFIX,
+      Buffer.from(bytes)
+    ).map((key) => {
+      const keyPrefix = ED25519_PUBLIC_KEY_PREFIX.length
+      if (
+        key.length !== keyPrefix + 1 + ED25519_PUBLIC_KEY_LENGTH ||
+        !key.subarray(0, keyPrefix).equals(ED25519_PUBLIC_KEY_PREFIX) ||
+        key[keyPrefix] !== ED25519_PUBLIC_KEY_LENGTH
+      ) {
+        throw new InvalidMultiSigError('Only ed25519 keys are supported')
+      }
+      return key.subarray(keyPrefix + 1).toString('hex')
+    })
+
+    return new MultiSigPublicKey(publicKeys)
+  }
+
+  /**
+   * Encodes the public key as pocket-core does, to be set in a transaction.
+   * @returns {Buffer} - The amino encoded public key.
+   */
+  public toBytes(): Buffer {
+    return encodeRepeatedBytes(
+      MULTI_SIG_PUBLIC_KEY_PREFIX,
+      this.publicKeys.map((publicKey) =>
+        Buffer.concat([
+          ED25519_PUBLIC_KEY_PREFIX,
+          Buffer.from([ED25519_PUBLIC_KEY_LENGTH]),
+          Buffer.from(publicKey, 'hex'),
+        ])
+      )
+    )
+  }
+
+  /**
+   * Gets the address of the multisig account.
+   * @returns {Promise<string>} - The address, as hex.
+   */
+  public async getAddress(): Promise<string> {
+    return getAddressFromPublicKey(this.toBytes().toString('hex'))
+  }
+
+  /**
+   * Assembles the signature of a transaction from those of every key.
+   * @param {PartialSignature[]} signatures - The signatures of each key, in any order.
+   * @returns {TxSignature} - The multisig signature, to marshal the transaction with.
+   * @throws {InvalidMultiSigError} - If a key didn't sign, or a signature is malformed or from another key.
+   */
+  public createSignature(signatures: PartialSignature[]): TxSignature {
+    signatures.forEach(({ publicKey, signature }) => {
+      if (this.publicKeys.indexOf(publicKey.toLowerCase()) === -1) {
+        throw new InvalidMultiSigError(
+          `Public key ${publicKey} is not part of the multisig key`
+        )
+      }
+      if (!isHex(signature, ED25519_SIGNATURE_LENGTH)) {
+        throw new InvalidMultiSigError(`Signature of ${publicKey} is malformed`)
+      }
+    })
+
+    const orderedSignatures = this.publicKeys.map((publicKey) => {
+      const partial = signatures.filter(
+        (signature) => signature.publicKey.toLowerCase() === publicKey
+      )[0]
+      if (!partial) {
+        throw new InvalidMultiSigError(`Missing signature of ${publicKey}`)
+      }
+      return Buffer.from(partial.signature, 'hex')
+    })
+
+    return new TxSignature(
+      this.toBytes(),
+      marshalMultiSignature(orderedSignatures)
+    )
+  }
+
+  /**
+   * Verifies a multisignature over a hex-string payload.
+   * @param {string} payload - The hex payload that was signed.
+   * @param {Uint8Array} signature - The amino encoded multisignature.
+   * @returns {Promise<boolean>} - Whether every key signed the payload.
+   */
+  public async verifySignature(
+    payload: string,
+    signature: Uint8Array
+  ): Promise<boolean> {
+    let signatures: Buffer[]
+    try {
+      signatures = unmarshalMultiSignature(signature)
+    } catch (err) {
+      return false
+    }
+    if (signatures.length !== this.publicKeys.length) {
+      return false
+    }
+
+    const results = await Promise.all(
+      this.publicKeys.map((publicKey, i) =>
+        KeyManager.verifySignature({
+          payload,
+          signature: signatures[i].toString('hex'),
+          publicKey,
+        })
+      )
+    )
+
+    return results.every((valid) => valid)
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  AbstractProvider,
+  getParam,
+  isNotFoundError,
+} from '@pokt-foundation/pocketjs-abstract-provider'
+import { getAddressFromPublicKey } from '@pokt-foundation/pocketjs-utils'
+import { DecodedTxMsg, ProtoTxDecoder } from './factory/proto-tx-decoder'
+import { GovParameter } from './models/gov'
+import { TxMsg } from './models/msgs'
+
+export enum PreflightProblemCode {
+  InsufficientBalance = 'InsufficientBalance',
+  StakeBelowMinimum = 'StakeBelowMinimum',
+  TooManyChains = 'TooManyChains',
+  MemoTooLong = 'MemoTooLong',
+  Jailed = 'Jailed',
+  NotJailed = 'NotJailed',
+}
+
+/**
+ * A reason for the network to reject a transaction.
+ */
+export interface PreflightProblem {
+  code: PreflightProblemCode
+  message: string
+  // The limit set by the network, or the balance available.
+  limit?: string
+  // What the transaction holds, or needs.
+  actual?: string
+}
+
+interface StakedActor {
+  jailed: boolean
+  stakedTokens: string
+}
+
+// Actors that were never staked aren't found by the network. Any other
+// failure leaves the actor unknown, so it's rethrown.
+async function getStakedActor(
+  query: () => Promise<StakedActor>
+): Promise<StakedActor | undefined> {
+  try {
+    return await query()
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      return undefined
+    }
+    throw err
+  }
+}
+
+function checkStake(
+  amount: string,
+  chains: string[],
+  minimum: string | undefined,
+  maximumChains: string | undefined
+): PreflightProblem[] {
+  const problems: PreflightProblem[] = []
+  if (minimum !== undefined && BigInt(amount) < BigInt(minimum)) {
+    problems.push({
+      code: PreflightProblemCode.StakeBelowMinimum,
+      message: `Stake amount ${amount} is below the minimum of ${minimum} uPOKT`,
+      limit: minimum,
+      actual: amount,
+    })
+  }
+  if (maximumChains !== undefined && chains.length > Number(maximumChains)) {
+    problems.push({
+      code: PreflightProblemCode.TooManyChains,
+      message: `Staking for ${chains.length} chains, above the maximum of ${maximumChains}`,
+      limit: maximumChains,
+      actual: chains.length.toString(),
+    })
+  }
+
+  return problems
+}
+
+function checkJailed(
+  actor: StakedActor | undefined,
+  address: string,
+  msg: DecodedTxMsg
+): PreflightProblem[] {
+  if (msg.type === 'NodeUnjail' || msg.type === 'AppUnjail') {
+    return actor && !actor.jailed
+      ? [
+          {
+            code: PreflightProblemCode.NotJailed,
+            message: `${address} is not jailed`,
+          },
+        ]
+      : []
+  }
+
+  return actor?.jailed
+    ? [
+        {
+          code: PreflightProblemCode.Jailed,
+          message: `${address} is jailed, and must be unjailed first`,
+        },
+      ]
+    : []
+}
+
+/**
+ * Checks a transaction against the current state of the network, to find out
+ * whether it would be rejected before broadcasting it.
+ * @param {AbstractProvider} provider - The provider to query the network with.
+ * @param {string} address - The address of the account paying for the transaction.
+ * @param {TxMsg} txMsg - The transaction message.
+ * @param {string} fee - The fee of the transaction, in uPOKT.
+ * @param {string} memo - The memo of the transaction.
+ * @returns {Promise<PreflightProblem[]>} - The problems found, if any. Checks
+ * relying on params the network doesn't return are skipped.
+ * @throws {Error} - If the network can't be queried, e.g on a timeout.
+ * */
+export async function preflightTransaction({
+  provider,
+  address,
+  txMsg,
+  fee,
+  memo = '',
+}: {
+  provider: AbstractProvider
+  address: string
+  txMsg: TxMsg
+  fee: string | bigint
+  memo?: string
+}): Promise<PreflightProblem[]> {
+  const stdTxMsg = txMsg.toStdTxMsgObj()
+  const msg = new ProtoTxDecoder().decodeMsg(stdTxMsg.typeUrl, stdTxMsg.value)
+
+  let actorAddress: string | undefined
+  let queryActor: (() => Promise<StakedActor>) | undefined
+  switch (msg.type) {
+    case 'NodeStake':
+    case 'NodeUnstake':
+    case 'NodeUnjail':
+      actorAddress =
+        msg.type === 'NodeStake'
+          ? await getAddressFromPublicKey(msg.value.pubKey)
+          : msg.value.nodeAddress
+      queryActor = () => provider.getNode({ address: actorAddress as string })
+      break
+    case 'AppStake':
+    case 'AppUnstake':
+    case 'AppUnjail':
+      actorAddress =
+        msg.type === 'AppStake'
+          ? await getAddressFromPublicKey(msg.value.pubKey)
+          : msg.type === 'AppUnstake'
+          ? msg.value.appAddress
+          : msg.value.address
+      queryActor = () => provider.getApp({ address: actorAddress as string })
+      break
+  }
+
+  const [allParams, balance, actor] = await Promise.all([
+    provider.getAllParams(0, {}),
+    provider.getBalance(address),
+    queryActor ? getStakedActor(queryActor) : Promise.resolve(undefined),
+  ])
+  const problems: PreflightProblem[] = []
+
+  const maxMemoCharacters = getParam(
+    allParams,
+    GovParameter.AUTH_MaxMemoCharacters
+  )
+  if (
+    maxMemoCharacters !== undefined &&
+    memo.length > Number(maxMemoCharacters)
+  ) {
+    problems.push({
+      code: PreflightProblemCode.MemoTooLong,
+      message: `Memo is ${memo.length} characters long, above the maximum of ${maxMemoCharacters}`,
+      limit: maxMemoCharacters,
+      actual: memo.length.toString(),
+    })
+  }
+
+  // Stakes only take the tokens added to the current stake.
+  let spent = BigInt(0)
+  switch (msg.type) {
+    case 'Send':
+      spent = BigInt(msg.value.amount)
+      break
+    case 'NodeStake':
+    case 'AppStake':
+      spent = BigInt(msg.value.amount) - BigInt(actor?.stakedTokens ?? 0)
+      spent = spent > BigInt(0) ? spent : BigInt(0)
+      problems.push(
+        ...(msg.type === 'NodeStake'
+          ? checkStake(
+              msg.value.amount,
+              msg.value.chains,
+              getParam(allParams, GovParameter.POS_StakeMinimum),
+              getParam(allParams, GovParameter.POS_MaximumChains)
+            )
+          : checkStake(
+              msg.value.amount,
+              msg.value.chains,
+              getParam(
+                allParams,
+                GovParameter.APPLICATION_ApplicationStakeMinimum
+              ),
+              getParam(allParams, GovParameter.APPLICATION_MaximumChains)
+            ))
+      )
+      break
+  }
+
+  const needed = spent + BigInt(fee)
+  if (balance < needed) {
+    problems.push({
+      code: PreflightProblemCode.InsufficientBalance,
+      message: `Balance of ${address} is ${balance} uPOKT, but ${needed} uPOKT are needed to cover the amount and fee`,
+      limit: balance.toString(),
+      actual: needed.toString(),
+    })
+  }
+
+  if (actorAddress) {
+    problems.push(...checkJailed(actor, actorAddress, msg))
+  }
+
+  return problems
+}
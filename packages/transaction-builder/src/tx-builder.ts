@@ -12,9 +12,13 @@ import { AbstractProvider } from '@pokt-foundation/pocketjs-abstract-provider'
 import { AbstractSigner } from '@pokt-foundation/pocketjs-signer'
 import {
   RawTxRequest,
+  Transaction,
   TransactionResponse,
 } from '@pokt-foundation/pocketjs-types'
+import { DecodedTransaction, decodeTransaction } from './decode-transaction'
+import { PreflightProblem, preflightTransaction } from './preflight'
 import { TxEncoderFactory } from './factory/tx-encoder-factory'
+import { UnsignedTransaction } from './factory/unsigned-transaction'
 import {
   CoinDenom,
   DAOAction,
@@ -90,13 +94,13 @@ export class TransactionBuilder implements AbstractBuilder {
     }
   }
   /**
-   * Signs and creates a transaction object that can be submitted to the network given the parameters and called upon Msgs.
-   * Will empty the msg list after succesful creation
+   * Creates a transaction whose sign doc can be signed by one or several signers, e.g the keys of a multisig account.
    * @param {string} fee - The amount to pay as a fee for executing this transaction, in uPOKT (1 POKT = 1*10^6 uPOKT).
    * @param {string} memo - The memo field for this account
-   * @returns {Promise<RawTxRequest>} - A Raw transaction Request which can be sent over the network.
+   * @param {TxMsg} txMsg - The transaction message.
+   * @returns {UnsignedTransaction} - The transaction, waiting for its signatures.
    */
-  public async createTransaction({
+  public createUnsignedTransaction({
     fee = DEFAULT_BASE_FEE,
     memo = '',
     txMsg,
@@ -104,7 +108,7 @@ export class TransactionBuilder implements AbstractBuilder {
     fee?: string | bigint
     memo?: string
     txMsg: TxMsg
-  }): Promise<RawTxRequest> {
+  }): UnsignedTransaction {
     // Let's make sure txMsg is defined.
     if (!txMsg) {
       throw new Error('txMsg should be defined.')
@@ -114,27 +118,44 @@ export class TransactionBuilder implements AbstractBuilder {
       BigInt(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER)).toString()
     ).toString()
 
-    const signer = TxEncoderFactory.createEncoder(
-      entropy,
-      this.chainID,
-      txMsg,
-      fee.toString(),
-      CoinDenom.Upokt,
-      memo
+    return new UnsignedTransaction(
+      TxEncoderFactory.createEncoder(
+        entropy,
+        this.chainID,
+        txMsg,
+        fee.toString(),
+        CoinDenom.Upokt,
+        memo
+      )
     )
+  }
 
-    const bytesToSign = signer.marshalStdSignDoc()
+  /**
+   * Signs and creates a transaction object that can be submitted to the network given the parameters and called upon Msgs.
+   * Will empty the msg list after succesful creation
+   * @param {string} fee - The amount to pay as a fee for executing this transaction, in uPOKT (1 POKT = 1*10^6 uPOKT).
+   * @param {string} memo - The memo field for this account
+   * @returns {Promise<RawTxRequest>} - A Raw transaction Request which can be sent over the network.
+   */
+  public async createTransaction({
+    fee = DEFAULT_BASE_FEE,
+    memo = '',
+    txMsg,
+  }: {
+    fee?: string | bigint
+    memo?: string
+    txMsg: TxMsg
+  }): Promise<RawTxRequest> {
+    const unsignedTx = this.createUnsignedTransaction({ fee, memo, txMsg })
 
-    const txBytes = await this.signer.sign(bytesToSign.toString('hex'))
+    const { publicKey, signature } = await unsignedTx.sign(this.signer)
 
     const marshalledTx = new TxSignature(
-      Buffer.from(this.signer.getPublicKey(), 'hex'),
-      Buffer.from(txBytes, 'hex')
+      Buffer.from(publicKey, 'hex'),
+      Buffer.from(signature, 'hex')
     )
 
-    const rawHexBytes = signer.marshalStdTx(marshalledTx).toString('hex')
-
-    return new RawTxRequest(this.signer.getAddress(), rawHexBytes)
+    return unsignedTx.toRawTxRequest(this.signer.getAddress(), marshalledTx)
   }
 
   /**
@@ -169,6 +190,46 @@ export class TransactionBuilder implements AbstractBuilder {
     return await this.provider.sendTransaction(tx)
   }
 
+  /**
+   * Checks a transaction against the current state of the network before submitting it:
+   * balance, stake minimums, maximum chains, memo length and jailed status.
+   * @param {string} fee - The amount to pay as a fee for executing this transaction, in uPOKT (1 POKT = 1*10^6 uPOKT).
+   * @param {string} memo - The memo field for this account
+   * @param {TxMsg} txMsg - The transaction message.
+   * @param {string} address - The address of the account paying for the transaction. Defaults to the signer's.
+   * @returns {Promise<PreflightProblem[]>} - The reasons for the network to reject the transaction, if any.
+   */
+  public async preflight({
+    fee = DEFAULT_BASE_FEE,
+    memo = '',
+    txMsg,
+    address = this.signer.getAddress(),
+  }: {
+    fee?: string | bigint
+    memo?: string
+    txMsg: TxMsg
+    address?: string
+  }): Promise<PreflightProblem[]> {
+    return preflightTransaction({
+      provider: this.provider,
+      address,
+      txMsg,
+      fee,
+      memo,
+    })
+  }
+
+  /**
+   * Decodes a transaction returned by the provider, verifying its signature against the current chain ID.
+   * @param {Transaction} transaction - The transaction, as returned by `getTransaction` or `getBlockTransactions`.
+   * @returns {Promise<DecodedTransaction>} - The transaction, with its decoded message, fee, memo and signer.
+   */
+  public async decodeTransaction(
+    transaction: Transaction
+  ): Promise<DecodedTransaction> {
+    return decodeTransaction(transaction, this.chainID)
+  }
+
   /**
    * Adds a MsgSend TxMsg for this transaction
    * @param {string} fromAddress - Origin address
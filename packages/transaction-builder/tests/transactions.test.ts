@@ -1,4 +1,9 @@
 import { KeyManager } from '@pokt-foundation/pocketjs-signer'
+import {
+  RpcResponseError,
+  TimeoutError,
+  V1RpcRoutes,
+} from '@pokt-foundation/pocketjs-abstract-provider'
 import { JsonRpcProvider } from '@pokt-foundation/pocketjs-provider'
 import { ChainID, TransactionBuilder } from '../src/tx-builder'
 import {
@@ -13,12 +18,26 @@ import {
   MsgProtoNodeUnstake,
   MsgProtoSend,
   OLD_UPGRADE_HEIGHT_EMPTY_VALUE,
+  TxMsg,
 } from '../src/models'
-import { RawTxRequest } from '@pokt-foundation/pocketjs-types'
+import { RawTxRequest, Transaction } from '@pokt-foundation/pocketjs-types'
 import { MsgProtoGovUpgrade } from '../src/models/msgs/msg-proto-gov-upgrade'
 import { MsgProtoGovChangeParam } from '../src/models/msgs/msg-proto-gov-change-param'
 import { MsgProtoGovDAOTransfer } from '../src/models/msgs/msg-proto-gov-dao-transfer'
 import { MsgProtoAppTransfer } from '../src/models/msgs/msg-proto-app-transfer'
+import { MsgProtoAppUnjail } from '../src/models/msgs/msg-proto-app-unjail'
+import { ProtoTxDecoder, UnsignedTransaction } from '../src/factory'
+import {
+  InvalidMultiSigError,
+  InvalidTxSignatureError,
+  InvalidUnsignedTransactionError,
+  UnsupportedTxMsgError,
+} from '../src/errors'
+import { MultiSigPublicKey } from '../src/models/multi-sig'
+import { Any } from '../src/models/proto/generated/google/protobuf/any'
+import { MsgChangeParam } from '../src/models/proto/generated/tx-signer'
+import { decodeTransaction } from '../src/decode-transaction'
+import { PreflightProblemCode, preflightTransaction } from '../src/preflight'
 
 const PRIVATE_KEY =
   '1f8cbde30ef5a9db0a5a9d5eb40536fc9defc318b8581d543808b7504e0902bcb243b27bc9fbe5580457a46370ae5f03a6f6753633e51efdaf2cf534fdc26cc3'
@@ -98,7 +117,7 @@ describe('TransactionBuilder Tests', () => {
         chains: ['0040'],
         amount: '69420000000',
         serviceURL: new URL('https://mofongonodes.co:8081'),
-        rewardDelegators: {'6efd6a4118fc75035959c270d7a81117ec5e45c0': 1},
+        rewardDelegators: { '6efd6a4118fc75035959c270d7a81117ec5e45c0': 1 },
       })
       expect(nodeStakeMsg instanceof MsgProtoNodeStakeTx).toBe(true)
 
@@ -640,4 +659,786 @@ describe('TransactionBuilder Tests', () => {
       }
     })
   })
+
+  describe('ProtoTxDecoder', () => {
+    const decoder = new ProtoTxDecoder()
+    const OTHER_ADDRESS = 'fcf719ca739dccbc281b12bc0d671aaa7a015848'
+
+    const decode = async (txMsg: any, memo?: string) => {
+      const rawTxRequest = await transactionBuilder.createTransaction({
+        txMsg,
+        memo,
+      })
+      return decoder.decodeStdTx(Buffer.from(rawTxRequest.rawHexBytes, 'hex'))
+    }
+
+    test('Decodes the fee, memo, entropy and signature of a transaction', async () => {
+      const decoded = await decode(
+        transactionBuilder.send({ toAddress: OTHER_ADDRESS, amount: '1' }),
+        'hello'
+      )
+
+      expect(decoded.memo).toBe('hello')
+      expect(typeof decoded.entropy).toBe('number')
+      expect(decoded.fee).toEqual([{ denom: 'upokt', amount: '10000' }])
+      expect(decoded.signature?.publicKey).toBe(PUBLIC_KEY)
+      expect(decoded.signature?.Signature).toMatch(/^[0-9a-f]{128}$/)
+    })
+
+    test('Decodes MsgProtoSend', async () => {
+      const { msg } = await decode(
+        transactionBuilder.send({ toAddress: OTHER_ADDRESS, amount: '1000000' })
+      )
+
+      expect(msg).toEqual({
+        type: 'Send',
+        typeUrl: '/x.nodes.MsgSend',
+        value: {
+          amount: '1000000',
+          FromAddress: ADDRESS,
+          ToAddress: OTHER_ADDRESS,
+        },
+      })
+    })
+
+    test('Decodes MsgProtoAppStake', async () => {
+      const { msg } = await decode(
+        transactionBuilder.appStake({
+          appPubKey: PUBLIC_KEY,
+          chains: ['0040', '0021'],
+          amount: '1000000',
+        })
+      )
+
+      expect(msg).toEqual({
+        type: 'AppStake',
+        typeUrl: '/x.apps.MsgProtoStake',
+        value: {
+          pubKey: PUBLIC_KEY,
+          chains: ['0040', '0021'],
+          amount: '1000000',
+        },
+      })
+    })
+
+    test('Decodes MsgProtoAppTransfer', async () => {
+      const { msg } = await decode(
+        transactionBuilder.appTransfer({ appPubKey: PUBLIC_KEY })
+      )
+
+      expect(msg).toEqual({
+        type: 'AppTransfer',
+        typeUrl: '/x.apps.MsgProtoStake',
+        value: { pubKey: PUBLIC_KEY },
+      })
+    })
+
+    test('Decodes MsgProtoAppUnstake', async () => {
+      const { msg } = await decode(transactionBuilder.appUnstake(ADDRESS))
+
+      expect(msg).toEqual({
+        type: 'AppUnstake',
+        typeUrl: '/x.apps.MsgBeginUnstake',
+        value: { appAddress: ADDRESS },
+      })
+    })
+
+    test('Decodes MsgProtoAppUnjail', async () => {
+      const { msg } = await decode(new MsgProtoAppUnjail(ADDRESS))
+
+      expect(msg).toEqual({
+        type: 'AppUnjail',
+        typeUrl: 'x.nodes.MsgUnjail',
+        value: { address: ADDRESS },
+      })
+    })
+
+    test('Decodes MsgProtoNodeStakeTx', async () => {
+      const { msg } = await decode(
+        transactionBuilder.nodeStake({
+          outputAddress: OTHER_ADDRESS,
+          chains: ['0040'],
+          amount: '15000000000',
+          serviceURL,
+          rewardDelegators: { [OTHER_ADDRESS]: 10 },
+        })
+      )
+
+      expect(msg).toEqual({
+        type: 'NodeStake',
+        typeUrl: '/x.nodes.MsgProtoStake8',
+        value: {
+          pubKey: PUBLIC_KEY,
+          chains: ['0040'],
+          amount: '15000000000',
+          serviceURL: 'http://localhost:8081',
+          outputAddress: OTHER_ADDRESS,
+          rewardDelegators: { [OTHER_ADDRESS]: 10 },
+        },
+      })
+    })
+
+    test('Decodes MsgProtoNodeUnstake', async () => {
+      const { msg } = await decode(
+        transactionBuilder.nodeUnstake({ nodeAddress: OTHER_ADDRESS })
+      )
+
+      expect(msg).toEqual({
+        type: 'NodeUnstake',
+        typeUrl: '/x.nodes.MsgBeginUnstake8',
+        value: { nodeAddress: OTHER_ADDRESS, signerAddress: ADDRESS },
+      })
+    })
+
+    test('Decodes MsgProtoNodeUnjail', async () => {
+      const { msg } = await decode(transactionBuilder.nodeUnjail({}))
+
+      expect(msg).toEqual({
+        type: 'NodeUnjail',
+        typeUrl: '/x.nodes.MsgUnjail8',
+        value: { nodeAddress: ADDRESS, signerAddress: ADDRESS },
+      })
+    })
+
+    test('Decodes MsgProtoGovDAOTransfer', async () => {
+      const { msg } = await decode(
+        transactionBuilder.govDAOTransfer({
+          toAddress: OTHER_ADDRESS,
+          amount: '5',
+          action: DAOAction.Transfer,
+        })
+      )
+
+      expect(msg).toEqual({
+        type: 'GovDAOTransfer',
+        typeUrl: '/x.gov.MsgDAOTransfer',
+        value: {
+          fromAddress: ADDRESS,
+          toAddress: OTHER_ADDRESS,
+          amount: '5',
+          action: DAOAction.Transfer,
+        },
+      })
+    })
+
+    test('Decodes MsgProtoGovChangeParam', async () => {
+      const { msg } = await decode(
+        transactionBuilder.govChangeParam({
+          paramKey: GovParameter.AUTH_MaxMemoCharacters,
+          paramValue: '100',
+        })
+      )
+
+      expect(msg).toEqual({
+        type: 'GovChangeParam',
+        typeUrl: '/x.gov.MsgChangeParam',
+        value: {
+          fromAddress: ADDRESS,
+          paramKey: GovParameter.AUTH_MaxMemoCharacters,
+          paramValue: '100',
+        },
+      })
+    })
+
+    test('Decodes MsgProtoGovUpgrade', async () => {
+      const { msg } = await decode(
+        transactionBuilder.govUpgrade({
+          upgrade: {
+            height: FEATURE_UPGRADE_ONLY_HEIGHT,
+            version: FEATURE_UPGRADE_KEY,
+            features: ['REDUP:9312'],
+          },
+        })
+      )
+
+      expect(msg).toEqual({
+        type: 'GovUpgrade',
+        typeUrl: '/x.gov.MsgUpgrade',
+        value: {
+          fromAddress: ADDRESS,
+          upgrade: {
+            height: FEATURE_UPGRADE_ONLY_HEIGHT,
+            version: FEATURE_UPGRADE_KEY,
+            oldUpgradeHeight: OLD_UPGRADE_HEIGHT_EMPTY_VALUE,
+            features: ['REDUP:9312'],
+          },
+        },
+      })
+    })
+
+    test('Throws an UnsupportedTxMsgError for unknown message types', () => {
+      expect(() =>
+        decoder.decodeMsg('/x.unknown.MsgUnknown', new Uint8Array())
+      ).toThrow(UnsupportedTxMsgError)
+      expect(() =>
+        decoder.decodeMsg('/x.unknown.MsgUnknown', new Uint8Array())
+      ).toThrow(/\/x.unknown.MsgUnknown/)
+    })
+  })
+
+  describe('decodeTransaction', () => {
+    const toTransaction = (rawTxRequest: RawTxRequest): Transaction =>
+      ({
+        hash: 'E8B2C1A9F3D04C6B8A7E5F1D2C3B4A5968778695A4B3C2D1E0F9A8B7C6D5E4F3',
+        height: 10,
+        index: 0,
+        tx: Buffer.from(rawTxRequest.rawHexBytes, 'hex').toString('base64'),
+        tx_result: {
+          code: 0,
+          data: '',
+          log: '',
+          info: '',
+          events: [],
+          codespace: '',
+          signer: ADDRESS,
+          recipient: 'fcf719ca739dccbc281b12bc0d671aaa7a015848',
+          message_type: 'send',
+        },
+      } as unknown as Transaction)
+
+    test('Decodes the transaction and verifies its signature', async () => {
+      const rawTxRequest = await transactionBuilder.createTransaction({
+        txMsg: transactionBuilder.send({
+          toAddress: 'fcf719ca739dccbc281b12bc0d671aaa7a015848',
+          amount: '1000000',
+        }),
+        memo: 'hello',
+      })
+      const transaction = toTransaction(rawTxRequest)
+
+      const decoded = await transactionBuilder.decodeTransaction(transaction)
+
+      expect(decoded.hash).toBe(transaction.hash)
+      expect(decoded.height).toBe(10)
+      expect(decoded.tx_result).toBe(transaction.tx_result)
+      expect(decoded.msg.type).toBe('Send')
+      expect(decoded.memo).toBe('hello')
+      expect(decoded.fee).toEqual([{ denom: 'upokt', amount: '10000' }])
+      expect(decoded.signer).toBe(ADDRESS)
+      expect(decoded.isSignatureValid).toBe(true)
+    })
+
+    test('Verifies the signature of every message type', async () => {
+      for (const txMsg of [
+        transactionBuilder.appStake({
+          appPubKey: PUBLIC_KEY,
+          chains: ['0040'],
+          amount: '1000000',
+        }),
+        transactionBuilder.appTransfer({ appPubKey: PUBLIC_KEY }),
+        transactionBuilder.appUnstake(ADDRESS),
+        new MsgProtoAppUnjail(ADDRESS),
+        transactionBuilder.nodeStake({
+          chains: ['0040'],
+          amount: '15000000000',
+          serviceURL,
+        }),
+        transactionBuilder.nodeStake({
+          chains: ['0040'],
+          amount: '15000000000',
+          serviceURL: new URL('https://node.example.com'),
+          rewardDelegators: { fcf719ca739dccbc281b12bc0d671aaa7a015848: 10 },
+        }),
+        transactionBuilder.nodeUnstake({}),
+        transactionBuilder.nodeUnjail({}),
+        transactionBuilder.govDAOTransfer({
+          action: DAOAction.Burn,
+          amount: '1',
+        }),
+        transactionBuilder.govChangeParam({
+          paramKey: GovParameter.GOV_Acl,
+          paramValue: '123',
+        }),
+        transactionBuilder.govUpgrade({
+          upgrade: {
+            height: 20,
+            version: '0.9.1.3',
+            features: [],
+          },
+        }),
+      ]) {
+        const rawTxRequest = await transactionBuilder.createTransaction({
+          txMsg,
+        })
+
+        const decoded = await decodeTransaction(
+          toTransaction(rawTxRequest),
+          'mainnet'
+        )
+
+        expect(decoded.isSignatureValid).toBe(true)
+      }
+    })
+
+    test('Verifies the signature of params set to non-string values', async () => {
+      // Sets the param as pocket-core does, to the JSON of its value.
+      const paramVal = Buffer.from('{"feeMultis":null,"default":1}')
+      class ChangeParamMsg extends TxMsg {
+        public toStdSignDocMsgObj(): object {
+          return {
+            type: 'gov/msg_change_param',
+            value: {
+              address: ADDRESS,
+              param_key: 'auth/FeeMultipliers',
+              param_value: paramVal.toString('base64'),
+            },
+          }
+        }
+
+        public toStdTxMsgObj(): any {
+          return Any.fromJSON({
+            typeUrl: '/x.gov.MsgChangeParam',
+            value: Buffer.from(
+              MsgChangeParam.encode({
+                FromAddress: Buffer.from(ADDRESS, 'hex'),
+                paramKey: 'auth/FeeMultipliers',
+                paramVal,
+              }).finish()
+            ).toString('base64'),
+          })
+        }
+      }
+      const rawTxRequest = await transactionBuilder.createTransaction({
+        txMsg: new ChangeParamMsg(),
+      })
+
+      const decoded = await decodeTransaction(
+        toTransaction(rawTxRequest),
+        'mainnet'
+      )
+
+      expect(decoded.msg.value).toEqual({
+        fromAddress: ADDRESS,
+        paramKey: 'auth/FeeMultipliers',
+        paramValue: '{"feeMultis":null,"default":1}',
+      })
+      expect(decoded.isSignatureValid).toBe(true)
+    })
+
+    test('Reports the signature as invalid on another chain', async () => {
+      const rawTxRequest = await transactionBuilder.createTransaction({
+        txMsg: transactionBuilder.nodeUnjail({}),
+      })
+
+      const decoded = await decodeTransaction(
+        toTransaction(rawTxRequest),
+        'testnet'
+      )
+
+      expect(decoded.signer).toBe(ADDRESS)
+      expect(decoded.isSignatureValid).toBe(false)
+    })
+  })
+
+  describe('Multisig', () => {
+    let signers: KeyManager[], multiSigKey: MultiSigPublicKey
+
+    beforeAll(async () => {
+      signers = [
+        signer,
+        await KeyManager.createRandom(),
+        await KeyManager.createRandom(),
+      ]
+      multiSigKey = new MultiSigPublicKey(
+        signers.map((keyManager) => keyManager.getPublicKey())
+      )
+    })
+
+    test('Creates a RawTxRequest signed by every key of a multisig account', async () => {
+      const multiSigAddress = await multiSigKey.getAddress()
+      const unsignedTx = transactionBuilder.createUnsignedTransaction({
+        txMsg: transactionBuilder.send({
+          fromAddress: multiSigAddress,
+          toAddress: ADDRESS,
+          amount: '1000000',
+        }),
+      })
+
+      // Signatures can be collected in any order.
+      const signatures = await Promise.all(
+        [signers[2], signers[0], signers[1]].map((keyManager) =>
+          unsignedTx.sign(keyManager)
+        )
+      )
+      const rawTxRequest = await unsignedTx.toMultiSigRawTxRequest(
+        multiSigKey,
+        signatures
+      )
+
+      expect(rawTxRequest instanceof RawTxRequest).toBe(true)
+      expect(rawTxRequest.address).toBe(multiSigAddress)
+
+      const decoder = new ProtoTxDecoder()
+      const stdTx = decoder.decodeStdTx(
+        Buffer.from(rawTxRequest.rawHexBytes, 'hex')
+      )
+      expect(stdTx.signature?.publicKey).toBe(
+        multiSigKey.toBytes().toString('hex')
+      )
+
+      const decoded = await decodeTransaction(
+        {
+          hash: '',
+          height: 1,
+          index: 0,
+          tx: Buffer.from(rawTxRequest.rawHexBytes, 'hex').toString('base64'),
+        } as unknown as Transaction,
+        'mainnet'
+      )
+      expect(decoded.signer).toBe(multiSigAddress)
+      expect(decoded.isSignatureValid).toBe(true)
+    })
+
+    test('Encodes and decodes multisig public keys', () => {
+      const bytes = multiSigKey.toBytes()
+
+      expect(bytes.toString('hex').startsWith('f325b8ad0a259d54477420')).toBe(
+        true
+      )
+      expect(MultiSigPublicKey.fromBytes(bytes).publicKeys).toEqual(
+        multiSigKey.publicKeys
+      )
+    })
+
+    test('Fails to assemble the signature without every key', async () => {
+      const unsignedTx = transactionBuilder.createUnsignedTransaction({
+        txMsg: transactionBuilder.nodeUnjail({}),
+      })
+      const signatures = await Promise.all(
+        signers.slice(1).map((keyManager) => unsignedTx.sign(keyManager))
+      )
+
+      expect(() => multiSigKey.createSignature(signatures)).toThrow(
+        InvalidMultiSigError
+      )
+      expect(() => multiSigKey.createSignature(signatures)).toThrow(
+        `Missing signature of ${PUBLIC_KEY}`
+      )
+    })
+
+    test('Fails to assemble the signature with a foreign key', async () => {
+      const unsignedTx = transactionBuilder.createUnsignedTransaction({
+        txMsg: transactionBuilder.nodeUnjail({}),
+      })
+      const foreigner = await KeyManager.createRandom()
+      const signatures = await Promise.all(
+        signers
+          .concat(foreigner)
+          .map((keyManager) => unsignedTx.sign(keyManager))
+      )
+
+      expect(() => multiSigKey.createSignature(signatures)).toThrow(
+        /is not part of the multisig key/
+      )
+    })
+
+    test('Rejects repeated or malformed public keys', () => {
+      expect(() => new MultiSigPublicKey([])).toThrow(InvalidMultiSigError)
+      expect(() => new MultiSigPublicKey(['1234'])).toThrow(/is malformed/)
+      expect(
+        () => new MultiSigPublicKey([PUBLIC_KEY, PUBLIC_KEY.toUpperCase()])
+      ).toThrow(/is repeated/)
+    })
+  })
+
+  describe('Offline signing', () => {
+    const createExport = () =>
+      JSON.stringify(
+        transactionBuilder
+          .createUnsignedTransaction({
+            txMsg: transactionBuilder.nodeStake({
+              chains: ['0040'],
+              amount: '15000000000',
+              serviceURL,
+              rewardDelegators: { fcf719ca739dccbc281b12bc0d671aaa7a015848: 5 },
+            }),
+            fee: '20000',
+            memo: 'cold storage',
+          })
+          .toJSON()
+      )
+
+    test('Exports, signs elsewhere and imports the signature of a transaction', async () => {
+      const exported = createExport()
+
+      // On the offline machine
+      const offlineTx = UnsignedTransaction.fromJSON(exported)
+      expect(offlineTx.getSignDoc()).toBe(JSON.parse(exported).signDoc)
+      const offlineSigner = await KeyManager.fromPrivateKey(PRIVATE_KEY)
+      const signature = await offlineSigner.sign(offlineTx.getSignDoc())
+
+      // Back online
+      const rawTxRequest = await UnsignedTransaction.fromJSON(
+        exported
+      ).toSignedRawTxRequest({ publicKey: PUBLIC_KEY, signature })
+
+      expect(rawTxRequest instanceof RawTxRequest).toBe(true)
+      expect(rawTxRequest.address).toBe(ADDRESS)
+
+      const decoded = await decodeTransaction(
+        {
+          tx: Buffer.from(rawTxRequest.rawHexBytes, 'hex').toString('base64'),
+        } as unknown as Transaction,
+        'mainnet'
+      )
+      expect(decoded.msg.type).toBe('NodeStake')
+      expect(decoded.memo).toBe('cold storage')
+      expect(decoded.fee).toEqual([{ denom: 'upokt', amount: '20000' }])
+      expect(decoded.entropy.toString()).toBe(JSON.parse(exported).entropy)
+      expect(decoded.isSignatureValid).toBe(true)
+    })
+
+    test('Rejects exports whose sign doc does not match the transaction', () => {
+      const exported = JSON.parse(createExport())
+
+      expect(() =>
+        UnsignedTransaction.fromJSON({ ...exported, memo: 'tampered' })
+      ).toThrow(InvalidUnsignedTransactionError)
+      expect(() =>
+        UnsignedTransaction.fromJSON({ ...exported, chainID: 'testnet' })
+      ).toThrow('The sign doc does not match the unsigned transaction')
+    })
+
+    test('Rejects malformed exports', () => {
+      const exported = JSON.parse(createExport())
+
+      expect(() => UnsignedTransaction.fromJSON('{')).toThrow(
+        InvalidUnsignedTransactionError
+      )
+      expect(() =>
+        UnsignedTransaction.fromJSON({
+          ...exported,
+          msg: { typeUrl: '/x.unknown.MsgUnknown', value: '' },
+        })
+      ).toThrow(/Malformed unsigned transaction/)
+    })
+
+    test('Rejects signatures over another sign doc', async () => {
+      const unsignedTx = UnsignedTransaction.fromJSON(createExport())
+      const otherTx = UnsignedTransaction.fromJSON(createExport())
+      const signature = await signer.sign(otherTx.getSignDoc())
+
+      await expect(
+        unsignedTx.toSignedRawTxRequest({ publicKey: PUBLIC_KEY, signature })
+      ).rejects.toThrow(InvalidTxSignatureError)
+    })
+  })
+
+  describe('Preflight', () => {
+    const OTHER_ADDRESS = 'fcf719ca739dccbc281b12bc0d671aaa7a015848'
+
+    const createProvider = ({
+      balance = BigInt(100000000000),
+      staked,
+    }: {
+      balance?: bigint
+      staked?: { jailed: boolean; stakedTokens: string }
+    } = {}) => ({
+      getAllParams: jest.fn(async () => ({
+        app_params: [
+          {
+            param_key: 'application/ApplicationStakeMinimum',
+            param_value: '1000000',
+          },
+          { param_key: 'application/MaximumChains', param_value: '15' },
+        ],
+        auth_params: [
+          { param_key: 'auth/MaxMemoCharacters', param_value: '75' },
+        ],
+        node_params: [
+          { param_key: 'pos/StakeMinimum', param_value: '"15000000000"' },
+          { param_key: 'pos/MaximumChains', param_value: '2' },
+        ],
+      })),
+      getBalance: jest.fn(async () => balance),
+      getNode: jest.fn(async () => {
+        if (!staked) {
+          throw new RpcResponseError({
+            route: V1RpcRoutes.QueryNode,
+            status: 400,
+            body: JSON.stringify({
+              code: 400,
+              message: `validator not found for ${ADDRESS}`,
+            }),
+          })
+        }
+        return staked
+      }),
+      getApp: jest.fn(async () => {
+        if (!staked) {
+          throw new RpcResponseError({
+            route: V1RpcRoutes.QueryApp,
+            status: 400,
+            body: JSON.stringify({
+              code: 400,
+              message:
+                'ERROR:\nCodespace: application\nCode: 101\nMessage: "application does not exist for that address"\n',
+            }),
+          })
+        }
+        return staked
+      }),
+    })
+
+    const preflight = (provider: any, txMsg: any, memo?: string) =>
+      new TransactionBuilder({
+        provider,
+        signer,
+        chainID: 'mainnet',
+      }).preflight({ txMsg, memo })
+
+    test('Finds no problem with a valid transaction', async () => {
+      const provider = createProvider()
+
+      const problems = await preflight(
+        provider,
+        transactionBuilder.send({ toAddress: OTHER_ADDRESS, amount: '1000' })
+      )
+
+      expect(problems).toEqual([])
+      expect(provider.getBalance).toHaveBeenCalledWith(ADDRESS)
+    })
+
+    test('Checks the balance against the amount and fee', async () => {
+      const problems = await preflight(
+        createProvider({ balance: BigInt(15000) }),
+        transactionBuilder.send({ toAddress: OTHER_ADDRESS, amount: '10000' })
+      )
+
+      expect(problems).toEqual([
+        expect.objectContaining({
+          code: PreflightProblemCode.InsufficientBalance,
+          limit: '15000',
+          actual: '20000',
+        }),
+      ])
+    })
+
+    test('Checks the memo length', async () => {
+      const problems = await preflight(
+        createProvider(),
+        transactionBuilder.send({ toAddress: OTHER_ADDRESS, amount: '1' }),
+        'a'.repeat(76)
+      )
+
+      expect(problems).toEqual([
+        expect.objectContaining({
+          code: PreflightProblemCode.MemoTooLong,
+          limit: '75',
+          actual: '76',
+        }),
+      ])
+    })
+
+    test('Checks node stakes against the network params', async () => {
+      const problems = await preflight(
+        createProvider({ balance: BigInt(0) }),
+        transactionBuilder.nodeStake({
+          chains: ['0001', '0021', '0040'],
+          amount: '15000000000',
+          serviceURL,
+        })
+      )
+
+      expect(problems.map(({ code }) => code)).toEqual([
+        PreflightProblemCode.TooManyChains,
+        PreflightProblemCode.InsufficientBalance,
+      ])
+      expect(problems[1].actual).toBe('15000010000')
+    })
+
+    test('Uses the stake minimum from the network', async () => {
+      const provider = createProvider()
+      provider.getAllParams.mockResolvedValueOnce({
+        node_params: [
+          { param_key: 'pos/StakeMinimum', param_value: '20000000000' },
+        ],
+      } as any)
+
+      const problems = await preflightTransaction({
+        provider: provider as any,
+        address: ADDRESS,
+        txMsg: transactionBuilder.nodeStake({
+          chains: ['0040'],
+          amount: '15000000000',
+          serviceURL,
+        }),
+        fee: '10000',
+      })
+
+      expect(problems).toEqual([
+        expect.objectContaining({
+          code: PreflightProblemCode.StakeBelowMinimum,
+          limit: '20000000000',
+          actual: '15000000000',
+        }),
+      ])
+    })
+
+    test('Only counts the tokens added to an existing stake', async () => {
+      const problems = await preflight(
+        createProvider({
+          balance: BigInt(1010000),
+          staked: { jailed: false, stakedTokens: '15000000000' },
+        }),
+        transactionBuilder.nodeStake({
+          chains: ['0040'],
+          amount: '15001000000',
+          serviceURL,
+        })
+      )
+
+      expect(problems).toEqual([])
+    })
+
+    test('Checks app stakes against the network params', async () => {
+      const problems = await preflight(
+        createProvider(),
+        transactionBuilder.appStake({
+          appPubKey: PUBLIC_KEY,
+          chains: new Array(16).fill('0040'),
+          amount: '1000000',
+        })
+      )
+
+      expect(problems).toEqual([
+        expect.objectContaining({
+          code: PreflightProblemCode.TooManyChains,
+          limit: '15',
+          actual: '16',
+        }),
+      ])
+    })
+
+    test('Checks the jailed status', async () => {
+      const jailed = createProvider({
+        staked: { jailed: true, stakedTokens: '15000000000' },
+      })
+      const free = createProvider({
+        staked: { jailed: false, stakedTokens: '15000000000' },
+      })
+
+      expect(
+        await preflight(jailed, transactionBuilder.nodeUnstake({}))
+      ).toEqual([
+        expect.objectContaining({ code: PreflightProblemCode.Jailed }),
+      ])
+      expect(
+        await preflight(jailed, transactionBuilder.nodeUnjail({}))
+      ).toEqual([])
+      expect(await preflight(free, transactionBuilder.nodeUnjail({}))).toEqual([
+        expect.objectContaining({ code: PreflightProblemCode.NotJailed }),
+      ])
+      expect(jailed.getNode).toHaveBeenCalledWith({ address: ADDRESS })
+    })
+
+    test('Fails when the actor query fails for another reason', async () => {
+      const provider = createProvider()
+      provider.getNode.mockRejectedValueOnce(new TimeoutError())
+
+      await expect(
+        preflight(provider, transactionBuilder.nodeUnjail({}))
+      ).rejects.toThrow(TimeoutError)
+    })
+  })
 })
@@ -8,6 +8,19 @@ export interface Paginable<T> {
 
 export interface Timeoutable {
   timeout?: number
+  retryPolicy?: Partial<RetryPolicy>
+}
+
+export type RetryableErrorClass = new (...args: any[]) => Error
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelay: number
+  maxDelay: number
+  jitter: number
+  retryableStatusCodes: number[]
+  retryableErrors: (string | RetryableErrorClass)[]
+  routes?: Record<string, Partial<Omit<RetryPolicy, 'routes'>>>
 }
 
 export interface RawTransactionResponse {
@@ -152,6 +165,21 @@ export interface GetNodeClaimsOptions extends GetPaginableOptions {
   height?: number
 }
 
+export interface GetNodeReceiptOptions extends Timeoutable {
+  address: string
+  blockchain: string
+  appPubKey: string
+  sessionBlockHeight: number
+  height?: number
+  evidenceType?: EvidenceType
+}
+
+export type GetNodeClaimOptions = GetNodeReceiptOptions
+
+export interface GetNodeReceiptsOptions extends GetPaginableOptions {
+  height?: number
+}
+
 export enum StakingStatus {
   Unstaked = 0,
   Unstaking = 1,
@@ -164,6 +192,11 @@ export enum JailedStatus {
   Unjailed = 2,
 }
 
+export enum EvidenceType {
+  RelayEvidence = 1,
+  ChallengeEvidence = 2,
+}
+
 export interface App {
   address: string
   chains: string[]
@@ -205,6 +238,58 @@ export interface SessionHeader {
   readonly sessionBlockHeight: string | number
 }
 
+export interface NodeParams {
+  daoAllocation: number
+  downtimeJailDuration: string
+  maxEvidenceAge: string
+  maxJailedBlocks: number
+  maxValidators: number
+  maximumChains: number
+  minSignedPerWindow: string
+  proposerAllocation: number
+  relaysToTokensMultiplier: number
+  servicerStakeFloorMultiplier: number
+  servicerStakeFloorMultiplierExponent: string
+  servicerStakeWeightCeiling: number
+  servicerStakeWeightMultiplier: string
+  sessionBlockFrequency: number
+  signedBlocksWindow: number
+  slashFractionDoubleSign: string
+  slashFractionDowntime: string
+  stakeDenom: string
+  stakeMinimum: string
+  unstakingTime: string
+}
+
+export interface NodeClaim {
+  header: SessionHeader
+  merkleRoot: {
+    merkleHash: string
+    range: {
+      lower: string
+      upper: string
+    }
+  }
+  totalProofs: number
+  fromAddress: string
+  evidenceType: EvidenceType
+  expirationHeight: number
+}
+
+export interface NodeReceipt {
+  header: SessionHeader
+  servicerAddress: string
+  totalRelays: number
+  evidenceType: EvidenceType
+}
+
+export interface Upgrade {
+  height: number
+  version: string
+  oldUpgradeHeight: number
+  features: string[]
+}
+
 export type RelayHeaders = Record<string, string>
 
 export interface PocketAAT {
@@ -224,6 +309,8 @@ export interface Session {
 export enum HTTPMethod {
   POST = 'POST',
   GET = 'GET',
+  PUT = 'PUT',
+  PATCH = 'PATCH',
   DELETE = 'DELETE',
   NA = '',
 }
@@ -276,4 +363,126 @@ export interface RelayResponse {
   readonly relayRequest: RelayRequest
 }
 
+export interface ChallengeRelayResponse {
+  readonly signature: string
+  readonly response: string
+  readonly proof: RelayProof
+}
+
+export interface ChallengeRequest {
+  readonly majorityResponses: ChallengeRelayResponse[]
+  readonly minorityResponse: ChallengeRelayResponse
+  readonly reporterAddress: string
+}
+
+export interface ChallengeResponse {
+  readonly response: string
+}
+
+export interface RequestEvent {
+  route: string
+  url: string
+  attempt: number
+  node?: Node
+}
+
+export interface ResponseEvent extends RequestEvent {
+  latency: number
+  status?: number
+  error?: string
+}
+
+export interface RetryEvent extends ResponseEvent {
+  delay: number
+}
+
+export interface SessionRenewedEvent {
+  previousSession: Session
+  session: Session
+  error: Error
+}
+
+export interface ProviderHooks {
+  onRequest?: (event: RequestEvent) => void
+  onResponse?: (event: ResponseEvent) => void
+  onRetry?: (event: RetryEvent) => void
+}
+
+export interface RelayerHooks extends ProviderHooks {
+  onSessionRenewed?: (event: SessionRenewedEvent) => void
+  onRelayError?: (event: ResponseEvent) => void
+}
+
+export interface RelayOptions {
+  retryAttempts?: number
+  rejectSelfSignedCertificates?: boolean
+  timeout?: number
+  retryPolicy?: Partial<RetryPolicy>
+  // Checks that the response is signed by the servicer that served it.
+  verifyRelaySignature?: boolean
+  // How many servicers of the session to send the relay to before giving up.
+  maxNodeAttempts?: number
+  // Aborts the relay, along with any dispatch, retry or servicer it would move on to.
+  signal?: AbortSignal
+}
+
+export type RelayQueryValue = string | number | boolean | null | undefined
+
+export type RelayQuery = Record<string, RelayQueryValue | RelayQueryValue[]>
+
+export interface RelayParams {
+  blockchain: string
+  // The body of the request. Binary bodies must be valid UTF-8 to be relayed through a session.
+  data: string | Uint8Array
+  headers?: RelayHeaders | null
+  method?: HTTPMethod | ''
+  path?: string
+  // Query parameters, encoded and appended to the path.
+  query?: RelayQuery
+  // Used by relayers sending relays in a session. Relayers may fall back to
+  // their own AAT and session, and pick the servicer when no node is given.
+  pocketAAT?: PocketAAT
+  session?: Session
+  node?: Node
+  options?: RelayOptions
+}
+
+export interface RelayResult {
+  response: string
+  // The HTTP status the chain answered with, when known.
+  status?: number
+}
+
+export interface RelayAttempt {
+  serviceNode: Node
+  error?: string
+}
+
+// The proof of a relay, as sent to the servicer that served it.
+export interface SignedRelayProof {
+  entropy: number
+  sessionBlockheight: number
+  servicerPubKey: string
+  blockchain: string
+  aat: {
+    version: string
+    appPubKey: string
+    clientPubKey: string
+    signature: string
+  }
+  signature: string
+  requestHash: string
+}
+
+export interface SessionRelayResult extends RelayResult {
+  // The servicer's signature of the response.
+  signature: string
+  relayProof: SignedRelayProof
+  serviceNode: Node
+  // The session the relay ended up being sent in.
+  session: Session
+  // Every servicer tried, in order.
+  attempts: RelayAttempt[]
+}
+
 export * from './tx-request'